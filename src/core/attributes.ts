@@ -0,0 +1,86 @@
+/**
+ * Span attribute names used by AgentBasis SDK
+ */
+
+/** Custom semantic conventions for LLM tracing */
+export const LLM_ATTRIBUTES = {
+  PROVIDER: 'llm.provider',
+  MODEL: 'llm.model',
+  INPUT_TOKENS: 'llm.usage.input_tokens',
+  OUTPUT_TOKENS: 'llm.usage.output_tokens',
+  TOTAL_TOKENS: 'llm.usage.total_tokens',
+  CACHED_INPUT_TOKENS: 'llm.usage.cached_input_tokens',
+  REASONING_TOKENS: 'llm.usage.reasoning_tokens',
+  COST_USD: 'llm.cost.usd',
+  PROMPT: 'llm.prompt',
+  RESPONSE: 'llm.response',
+  PROMPT_TRUNCATED: 'llm.prompt.truncated',
+  RESPONSE_TRUNCATED: 'llm.response.truncated',
+  STREAMED: 'llm.streamed',
+  RESPONSE_ID: 'llm.response.id',
+  RESPONSE_MODEL: 'llm.response.model',
+  FINISH_REASONS: 'llm.response.finish_reasons',
+  SYSTEM_FINGERPRINT: 'llm.response.system_fingerprint',
+  REQUEST_TEMPERATURE: 'llm.request.temperature',
+  REQUEST_TOP_P: 'llm.request.top_p',
+  REQUEST_MAX_TOKENS: 'llm.request.max_tokens',
+  REQUEST_STOP_SEQUENCES: 'llm.request.stop_sequences',
+  REQUEST_SEED: 'llm.request.seed',
+  REQUEST_RESPONSE_FORMAT: 'llm.request.response_format',
+  REQUEST_TOOL_CHOICE: 'llm.request.tool_choice',
+  REQUEST_TOOL_COUNT: 'llm.request.tool_count',
+  STATUS_CODE: 'http.response.status_code',
+  STATUS: 'llm.status',
+  TIME_TO_FIRST_TOKEN_MS: 'llm.time_to_first_token_ms',
+  AGENT_ID: 'agentbasis.agent_id',
+  REDACTION_RULES: 'agentbasis.redaction.rules',
+} as const;
+
+/** Attributes stamped from the active `withContext` trace context */
+export const CONTEXT_ATTRIBUTES = {
+  USER_ID: 'user.id',
+  SESSION_ID: 'session.id',
+  TRACE_ID: 'agentbasis.trace_id',
+  METADATA_PREFIX: 'agentbasis.metadata.',
+} as const;
+
+/** Attributes for spans created by `trace()` and the manual span API */
+export const SPAN_ATTRIBUTES = {
+  KIND: 'agentbasis.span.kind',
+  INPUT: 'agentbasis.input',
+  OUTPUT: 'agentbasis.output',
+  ITEM_COUNT: 'agentbasis.stream.item_count',
+  TIME_TO_FIRST_ITEM_MS: 'agentbasis.stream.time_to_first_item_ms',
+  RETURNED_EARLY: 'agentbasis.stream.returned_early',
+} as const;
+
+/** `llm.tool_call` events recorded for each tool call a model requests */
+export const TOOL_CALL_ATTRIBUTES = {
+  EVENT: 'llm.tool_call',
+  NAME: 'llm.tool_call.name',
+  ID: 'llm.tool_call.id',
+  ARGUMENTS: 'llm.tool_call.arguments',
+  ARGUMENTS_SIZE: 'llm.tool_call.arguments_size',
+} as const;
+
+/** Totals of descendant LLM calls, set on ancestor spans */
+export const ROLLUP_ATTRIBUTES = {
+  LLM_CALLS: 'agentbasis.rollup.llm_calls',
+  LLM_ERRORS: 'agentbasis.rollup.llm_errors',
+  INPUT_TOKENS: 'agentbasis.rollup.input_tokens',
+  OUTPUT_TOKENS: 'agentbasis.rollup.output_tokens',
+  TOTAL_TOKENS: 'agentbasis.rollup.total_tokens',
+  COST_USD: 'agentbasis.rollup.cost_usd',
+} as const;
+
+/** Attributes for log and error events recorded with `log()` and `captureError()` */
+export const EVENT_ATTRIBUTES = {
+  LOG_LEVEL: 'log.level',
+  LOG_MESSAGE: 'log.message',
+  LOG_DATA: 'log.data',
+  EXCEPTION_TYPE: 'exception.type',
+  EXCEPTION_MESSAGE: 'exception.message',
+  EXCEPTION_STACKTRACE: 'exception.stacktrace',
+  EXCEPTION_HANDLED: 'exception.handled',
+  ERROR_EXTRA: 'agentbasis.error.extra',
+} as const;
@@ -0,0 +1,140 @@
+/**
+ * Detection and replacement of binary parts (images, audio, files) in captured content
+ */
+
+import { createHash } from 'crypto';
+
+/** Binary parts up to this decoded size are kept inline when `includeBinaryContent` is on */
+export const MAX_INLINE_BINARY_BYTES = 16 * 1024;
+
+/** Matches base64 data URLs such as OpenAI `image_url` and `file_data` values */
+const DATA_URL_PATTERN = /^data:([\w.+-]+\/[\w.+-]+)(?:;[\w-]+=[^;,]*)*;base64,/;
+
+/** Standard base64 with padding, as sent by the provider SDKs */
+const BASE64_PATTERN = /^(?:[A-Za-z0-9+/]{4})*(?:[A-Za-z0-9+/]{2}==|[A-Za-z0-9+/]{3}=)?$/;
+
+/** OpenAI `input_audio` formats */
+const AUDIO_FORMATS = new Set(['wav', 'mp3']);
+
+/**
+ * Placeholder for a binary payload: MIME type, decoded size and SHA-256 of the bytes
+ */
+function placeholder(mimeType: string, bytes: Buffer): string {
+  const hash = createHash('sha256').update(bytes).digest('hex');
+  return `[binary:${mimeType};bytes=${bytes.length};sha256=${hash}]`;
+}
+
+function replaceBase64(mimeType: string, base64: string, includeBinary: boolean): string | null {
+  if (!BASE64_PATTERN.test(base64)) {
+    return null;
+  }
+  const bytes = Buffer.from(base64, 'base64');
+  if (includeBinary && bytes.length <= MAX_INLINE_BINARY_BYTES) {
+    return null;
+  }
+  return placeholder(mimeType, bytes);
+}
+
+function replaceDataUrl(value: string, includeBinary: boolean): string {
+  const match = DATA_URL_PATTERN.exec(value);
+  if (!match) {
+    return value;
+  }
+  const replaced = replaceBase64(
+    match[1] ?? 'application/octet-stream',
+    value.slice(match[0].length),
+    includeBinary
+  );
+  return replaced ?? value;
+}
+
+/**
+ * Find the MIME type of a provider binary part whose `data` field holds a base64 payload
+ *
+ * Only the provider shapes are recognized: Gemini `inlineData`, OpenAI `input_audio` and
+ * Anthropic `base64` sources. Other objects with a `data` field (Anthropic `text` document
+ * sources, arbitrary arguments) are left alone.
+ */
+function binaryMimeType(
+  value: Record<string, unknown>,
+  parentKey: string | undefined
+): string | undefined {
+  if (typeof value.data !== 'string') {
+    return undefined;
+  }
+  if (
+    (parentKey === 'inlineData' || parentKey === 'inline_data') &&
+    typeof value.mimeType === 'string'
+  ) {
+    return value.mimeType;
+  }
+  if (
+    parentKey === 'input_audio' &&
+    typeof value.format === 'string' &&
+    AUDIO_FORMATS.has(value.format)
+  ) {
+    return `audio/${value.format}`;
+  }
+  if (value.type === 'base64' && typeof value.media_type === 'string') {
+    return value.media_type;
+  }
+  return undefined;
+}
+
+function walk(
+  value: unknown,
+  includeBinary: boolean,
+  seen: WeakSet<object>,
+  parentKey?: string
+): unknown {
+  if (typeof value === 'string') {
+    return replaceDataUrl(value, includeBinary);
+  }
+  if (typeof value !== 'object' || value === null || seen.has(value)) {
+    return value;
+  }
+  seen.add(value);
+
+  if (value instanceof Uint8Array) {
+    const bytes = Buffer.from(value.buffer, value.byteOffset, value.byteLength);
+    return includeBinary && bytes.length <= MAX_INLINE_BINARY_BYTES
+      ? bytes.toString('base64')
+      : placeholder('application/octet-stream', bytes);
+  }
+
+  if (Array.isArray(value)) {
+    const items = value.map((item) => walk(item, includeBinary, seen));
+    return items.some((item, index) => item !== value[index]) ? items : value;
+  }
+
+  const record = value as Record<string, unknown>;
+  const mimeType = binaryMimeType(record, parentKey);
+  let changed = false;
+  const copy: Record<string, unknown> = {};
+
+  for (const [key, child] of Object.entries(record)) {
+    let next: unknown;
+    if (key === 'data' && mimeType !== undefined && typeof child === 'string') {
+      next = replaceBase64(mimeType, child, includeBinary) ?? child;
+    } else {
+      next = walk(child, includeBinary, seen, key);
+    }
+    changed ||= next !== child;
+    copy[key] = next;
+  }
+
+  return changed ? copy : value;
+}
+
+/**
+ * Replace binary parts of captured content with placeholders
+ *
+ * Recognizes base64 data URLs (OpenAI images and files), the `data` field of Gemini `inlineData`,
+ * OpenAI `input_audio` and Anthropic `base64` sources, and raw byte arrays; payloads that aren't
+ * valid base64 are kept as-is. With `includeBinary` set, parts up to `MAX_INLINE_BINARY_BYTES`
+ * are kept as-is and only larger ones are replaced. Values without binary parts are returned
+ * unchanged.
+ */
+export function replaceBinaryContent(value: unknown, includeBinary: boolean): unknown {
+  return walk(value, includeBinary, new WeakSet());
+}
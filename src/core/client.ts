@@ -4,9 +4,22 @@
  * Main client class for initializing and managing the SDK.
  */
 
-import type { AgentBasisConfig, InitConfig } from '../types';
+import type {
+  AgentBasisConfig,
+  AgentSpanKind,
+  InitConfig,
+  LogLevel,
+  LLMCallOptions,
+  LLMCallRecord,
+  ModelPriceConfig,
+  SpanOptions,
+} from '../types';
 import { loadConfig } from './config';
-import { Transport } from './transport';
+import { emitError, emitLog } from './events';
+import { registerModelPrice as addModelPrice } from './pricing';
+import { recordLLMCallSpan, startLLMCallSpan, type LLMCallHandle } from './llm-calls';
+import { runInSpan, startAgentSpan, type AgentSpan, type SpanRunner } from './spans';
+import { DEFAULT_FLUSH_TIMEOUT_MS, Transport } from './transport';
 import { debug, setRuntimeDebugMode, warn } from '../utils/logger';
 
 /**
@@ -14,7 +27,7 @@ import { debug, setRuntimeDebugMode, warn } from '../utils/logger';
  */
 export class AgentBasis {
   private static instance: AgentBasis | null = null;
-  private static shutdownPromise: Promise<void> | null = null;
+  private static shutdownPromise: Promise<boolean> | null = null;
   private static handlersRegistered = false;
   private static readonly handleBeforeExit = (): void => {
     void AgentBasis.shutdown();
@@ -110,9 +123,9 @@ export class AgentBasis {
    * Flush all pending telemetry data
    *
    * @param timeoutMillis - Maximum time to wait for flush (default: 30000ms)
-   * @returns true if flush completed successfully
+   * @returns true if flush completed successfully, false on failure or timeout
    */
-  static async flush(timeoutMillis = 30000): Promise<boolean> {
+  static async flush(timeoutMillis = DEFAULT_FLUSH_TIMEOUT_MS): Promise<boolean> {
     if (!AgentBasis.instance) {
       warn('AgentBasis not initialized. Nothing to flush.');
       return false;
@@ -125,36 +138,166 @@ export class AgentBasis {
   /**
    * Shutdown the SDK gracefully
    *
-   * Flushes all pending events and stops background tasks.
+   * Flushes all pending events and stops background tasks. Gives up waiting after
+   * `timeoutMillis` so process exit is never blocked by a slow exporter.
+   *
+   * @param timeoutMillis - Maximum time to wait for pending spans (default: 30000ms)
+   * @returns false if shutdown failed or did not finish within `timeoutMillis`
    */
-  static async shutdown(): Promise<void> {
+  static async shutdown(timeoutMillis = DEFAULT_FLUSH_TIMEOUT_MS): Promise<boolean> {
     if (AgentBasis.shutdownPromise) {
       return AgentBasis.shutdownPromise;
     }
 
     if (!AgentBasis.instance) {
-      return;
+      return true;
     }
 
     AgentBasis.shutdownPromise = (async () => {
       debug('Shutting down AgentBasis SDK...');
       AgentBasis.removeShutdownHandlers();
-      await AgentBasis.instance?.transport.shutdown();
+      const completed = (await AgentBasis.instance?.transport.shutdown(timeoutMillis)) ?? true;
       AgentBasis.instance = null;
       setRuntimeDebugMode(undefined);
       debug('AgentBasis SDK shutdown complete');
+      return completed;
     })();
 
     try {
-      await AgentBasis.shutdownPromise;
+      return await AgentBasis.shutdownPromise;
     } finally {
       AgentBasis.shutdownPromise = null;
     }
   }
 
+  /**
+   * Run a function inside a new span
+   *
+   * The span is active while the function runs, so nested spans (including LLM calls) become
+   * its children, and it picks up metadata from the surrounding `withContext()` scope. It ends
+   * when the function returns or its promise settles; errors are recorded and rethrown.
+   *
+   * @example
+   * ```typescript
+   * const docs = await AgentBasis.span('retrieve', { kind: 'retrieval' }, async (span) => {
+   *   span.setInput(query);
+   *   return vectorStore.search(query);
+   * });
+   * ```
+   */
+  static span<T>(name: string, fn: (span: AgentSpan) => T): T;
+  static span<T>(name: string, options: SpanOptions, fn: (span: AgentSpan) => T): T;
+  static span<T>(
+    name: string,
+    optionsOrFn: SpanOptions | ((span: AgentSpan) => T),
+    maybeFn?: (span: AgentSpan) => T
+  ): T {
+    const fn = typeof optionsOrFn === 'function' ? optionsOrFn : maybeFn;
+    const options = typeof optionsOrFn === 'function' ? {} : optionsOrFn;
+    if (!fn) {
+      throw new Error('AgentBasis.span() requires a function to run');
+    }
+    return runInSpan(AgentBasis.instance?.transport ?? null, name, options, fn);
+  }
+
+  /**
+   * Start a span that the caller ends with `span.end()`
+   *
+   * The span is not made active; use `span.run(fn)` to start children under it. Returns a
+   * non-recording span when the SDK is not initialized.
+   */
+  static startSpan(name: string, options: SpanOptions = {}): AgentSpan {
+    return startAgentSpan(AgentBasis.instance?.transport ?? null, name, options);
+  }
+
+  /**
+   * Record a completed LLM call to a provider without auto-instrumentation
+   *
+   * Produces the same span and attributes as the provider integrations, backdated to the
+   * call's `timestamp` (or `durationMs` before now). Ignored when the SDK is not initialized.
+   *
+   * @example
+   * ```typescript
+   * AgentBasis.recordLLMCall({
+   *   provider: 'vllm',
+   *   model: 'llama-3-70b',
+   *   durationMs: 840,
+   *   inputTokens: 512,
+   *   outputTokens: 128,
+   *   prompt: messages,
+   *   response: completion,
+   *   statusCode: 200,
+   * });
+   * ```
+   */
+  static recordLLMCall(call: LLMCallRecord): void {
+    if (!AgentBasis.instance) {
+      debug('AgentBasis not initialized. LLM call not recorded.');
+      return;
+    }
+    recordLLMCallSpan(AgentBasis.instance.transport, call);
+  }
+
+  /**
+   * Start an LLM call span and finish it later with `call.end({ ...usage, response })`
+   *
+   * Returns a no-op handle when the SDK is not initialized.
+   */
+  static startLLMCall(options: LLMCallOptions): LLMCallHandle {
+    return startLLMCallSpan(AgentBasis.instance?.transport ?? null, options);
+  }
+
+  /**
+   * Register a price for a fine-tune, self-hosted model or negotiated rate
+   *
+   * Used for `llm.cost.usd` on LLM spans. Applies before and across `init()` calls and takes
+   * precedence over the built-in pricing table.
+   *
+   * @example
+   * ```typescript
+   * AgentBasis.registerModelPrice({ model: 'ft:gpt-4o-mini:acme', input: 0.3, output: 1.2 });
+   * AgentBasis.registerModelPrice({ provider: 'vllm', model: 'llama-3-70b', input: 0, output: 0 });
+   * ```
+   */
+  static registerModelPrice(price: ModelPriceConfig): void {
+    addModelPrice(price);
+  }
+
+  /**
+   * Log a message to the agent timeline
+   *
+   * Recorded as a `log` event on the active span, or as an OTLP log record tagged with the
+   * current `withContext()` metadata when no span is active or the active span has ended.
+   * `data` is serialized, redacted and truncated like captured content.
+   *
+   * @example
+   * ```typescript
+   * AgentBasis.log('info', 'Falling back to keyword search', { reason: 'no embeddings' });
+   * ```
+   */
+  static log(level: LogLevel, message: string, data?: unknown): void {
+    if (!AgentBasis.instance) {
+      return;
+    }
+    emitLog(AgentBasis.instance.transport, level, message, data);
+  }
+
+  /**
+   * Record a handled error on the agent timeline
+   *
+   * Recorded as an `exception` event on the active span without marking the span as failed,
+   * or as an error-level OTLP log record when no span is active or the active span has ended.
+   */
+  static captureError(err: unknown, extra?: unknown): void {
+    if (!AgentBasis.instance) {
+      return;
+    }
+    emitError(AgentBasis.instance.transport, err, extra);
+  }
+
   /**
    * Track a telemetry event (internal use)
-   * @deprecated Use withContext() or trace() instead
+   * @deprecated Use trace(), span(), recordLLMCall(), log() or captureError() instead
    */
   static track(event: Record<string, unknown>): void {
     if (!AgentBasis.instance) {
@@ -200,5 +343,43 @@ export class AgentBasis {
 // Convenience function exports
 export const init = (config?: InitConfig): AgentBasis => AgentBasis.init(config);
 export const flush = (timeoutMillis?: number): Promise<boolean> => AgentBasis.flush(timeoutMillis);
-export const shutdown = (): Promise<void> => AgentBasis.shutdown();
+export const shutdown = (timeoutMillis?: number): Promise<boolean> =>
+  AgentBasis.shutdown(timeoutMillis);
 export const isInitialized = (): boolean => AgentBasis.isInitialized();
+
+export const span: typeof AgentBasis.span = AgentBasis.span.bind(AgentBasis);
+export const startSpan = (name: string, options?: SpanOptions): AgentSpan =>
+  AgentBasis.startSpan(name, options);
+export const registerModelPrice = (price: ModelPriceConfig): void =>
+  AgentBasis.registerModelPrice(price);
+export const log = (level: LogLevel, message: string, data?: unknown): void =>
+  AgentBasis.log(level, message, data);
+export const captureError = (err: unknown, extra?: unknown): void =>
+  AgentBasis.captureError(err, extra);
+export const recordLLMCall = (call: LLMCallRecord): void => AgentBasis.recordLLMCall(call);
+export const startLLMCall = (options: LLMCallOptions): LLMCallHandle =>
+  AgentBasis.startLLMCall(options);
+
+/**
+ * Create a `span()` variant with a fixed agent span kind
+ */
+function spanOfKind(kind: AgentSpanKind): SpanRunner {
+  return <T>(
+    name: string,
+    optionsOrFn: Omit<SpanOptions, 'kind'> | ((span: AgentSpan) => T),
+    maybeFn?: (span: AgentSpan) => T
+  ): T => {
+    const fn = typeof optionsOrFn === 'function' ? optionsOrFn : maybeFn;
+    const options = typeof optionsOrFn === 'function' ? {} : optionsOrFn;
+    if (!fn) {
+      throw new Error(`${kind}Span() requires a function to run`);
+    }
+    return AgentBasis.span(name, { ...options, kind }, fn);
+  };
+}
+
+export const agentSpan = spanOfKind('agent');
+export const toolSpan = spanOfKind('tool');
+export const retrievalSpan = spanOfKind('retrieval');
+export const llmSpan = spanOfKind('llm');
+export const guardrailSpan = spanOfKind('guardrail');
@@ -2,19 +2,33 @@
  * Configuration management for AgentBasis SDK
  */
 
-import type { AgentBasisConfig, InitConfig } from '../types';
-import { getAgentBasisEnvVars, ENV_VARS } from '../utils/env';
+import type {
+  AgentBasisConfig,
+  ContentLimitsConfig,
+  ContentMode,
+  ExporterConfig,
+  InitConfig,
+  ModelPriceConfig,
+  SamplingConfig,
+  SemanticConventions,
+} from '../types';
+import { getAgentBasisEnvVars, ENV_VARS, AGENTBASIS_API_URL } from '../utils/env';
+import { CONTENT_MODES } from './content';
+import { SEMANTIC_CONVENTIONS } from './conventions';
 
 /**
  * Default configuration values
  */
 export const DEFAULT_CONFIG = {
+  endpoint: AGENTBASIS_API_URL,
+  exporters: [{ type: 'otlp' }] as ExporterConfig[],
   includeContent: false,
   includeBinaryContent: false,
   batchSize: 100,
   flushIntervalMs: 5000,
   maxRetries: 3,
   debug: false,
+  semanticConventions: 'agentbasis',
 } as const;
 
 /**
@@ -26,8 +40,14 @@ export function loadConfig(initConfig?: InitConfig): AgentBasisConfig {
   // Merge: defaults < env vars < explicit config
   const apiKey = initConfig?.apiKey ?? envVars.apiKey;
   const agentId = initConfig?.agentId ?? envVars.agentId;
+  const exporters = initConfig?.exporters ?? DEFAULT_CONFIG.exporters;
+  const includeContent =
+    initConfig?.includeContent ?? envVars.includeContent ?? DEFAULT_CONFIG.includeContent;
+  // Explicit init options win over env vars, so `includeContent: false` can't be overridden
+  const explicitContentMode: ContentMode | undefined =
+    initConfig?.includeContent === undefined ? undefined : includeContent ? 'full' : 'none';
 
-  if (!apiKey) {
+  if (!apiKey && usesOtlpExporter(exporters)) {
     throw new Error(
       `AgentBasis API key is required. Set ${ENV_VARS.API_KEY} env var or pass apiKey in config.`
     );
@@ -42,8 +62,24 @@ export function loadConfig(initConfig?: InitConfig): AgentBasisConfig {
   const config: AgentBasisConfig = {
     apiKey,
     agentId,
-    includeContent: initConfig?.includeContent ?? envVars.includeContent ?? DEFAULT_CONFIG.includeContent,
+    endpoint: initConfig?.endpoint ?? envVars.endpoint ?? DEFAULT_CONFIG.endpoint,
+    exporters,
+    spool: initConfig?.spool,
+    sampling: initConfig?.sampling,
+    includeContent,
+    contentMode:
+      initConfig?.contentMode ??
+      explicitContentMode ??
+      (envVars.contentMode as ContentMode | undefined) ??
+      (includeContent ? 'full' : 'none'),
     includeBinaryContent: initConfig?.includeBinaryContent ?? DEFAULT_CONFIG.includeBinaryContent,
+    redaction: initConfig?.redaction ?? {},
+    contentLimits: initConfig?.contentLimits ?? {},
+    semanticConventions:
+      initConfig?.semanticConventions ??
+      (envVars.semanticConventions as SemanticConventions | undefined) ??
+      DEFAULT_CONFIG.semanticConventions,
+    pricing: initConfig?.pricing,
     batchSize: initConfig?.batchSize ?? DEFAULT_CONFIG.batchSize,
     flushIntervalMs: initConfig?.flushIntervalMs ?? DEFAULT_CONFIG.flushIntervalMs,
     maxRetries: initConfig?.maxRetries ?? DEFAULT_CONFIG.maxRetries,
@@ -59,7 +95,10 @@ export function loadConfig(initConfig?: InitConfig): AgentBasisConfig {
  * Validate configuration values
  */
 export function validateConfig(config: AgentBasisConfig): void {
-  if (typeof config.apiKey !== 'string' || config.apiKey.length === 0) {
+  if (
+    (config.apiKey !== undefined || usesOtlpExporter(config.exporters)) &&
+    (typeof config.apiKey !== 'string' || config.apiKey.length === 0)
+  ) {
     throw new Error('Invalid API key: must be a non-empty string');
   }
 
@@ -67,6 +106,55 @@ export function validateConfig(config: AgentBasisConfig): void {
     throw new Error('Invalid Agent ID: must be a non-empty string');
   }
 
+  if (!isHttpUrl(config.endpoint)) {
+    throw new Error(`Invalid endpoint "${config.endpoint}": must be an http(s) URL`);
+  }
+
+  if (config.exporters.length === 0) {
+    throw new Error('exporters must contain at least one exporter');
+  }
+
+  for (const exporter of config.exporters) {
+    if ('type' in exporter && exporter.type === 'file' && !exporter.path) {
+      throw new Error('file exporter requires a path');
+    }
+  }
+
+  if (config.spool) {
+    if (!config.spool.directory) {
+      throw new Error('spool.directory must be a non-empty path');
+    }
+    if (config.spool.maxBytes !== undefined && config.spool.maxBytes < 1) {
+      throw new Error('spool.maxBytes must be at least 1');
+    }
+  }
+
+  if (config.sampling) {
+    validateSampling(config.sampling);
+  }
+
+  if (config.redaction) {
+    for (const redactor of config.redaction.custom ?? []) {
+      if (!redactor.name) {
+        throw new Error('custom redactors must have a name');
+      }
+    }
+  }
+
+  if (!CONTENT_MODES.includes(config.contentMode)) {
+    throw new Error(`contentMode must be one of: ${CONTENT_MODES.join(', ')}`);
+  }
+
+  validateContentLimits(config.contentLimits);
+
+  if (!SEMANTIC_CONVENTIONS.includes(config.semanticConventions)) {
+    throw new Error(`semanticConventions must be one of: ${SEMANTIC_CONVENTIONS.join(', ')}`);
+  }
+
+  for (const price of config.pricing ?? []) {
+    validateModelPrice(price);
+  }
+
   if (config.batchSize < 1) {
     throw new Error('batchSize must be at least 1');
   }
@@ -79,3 +167,102 @@ export function validateConfig(config: AgentBasisConfig): void {
     throw new Error('maxRetries must be 0 or greater');
   }
 }
+
+/**
+ * Resolve the OTLP/HTTP traces URL for a configured endpoint
+ *
+ * Base URLs get `/v1/traces` appended; URLs that already point at a traces path are used as-is.
+ */
+export function resolveTracesUrl(endpoint: string): string {
+  const trimmed = endpoint.replace(/\/+$/, '');
+  return trimmed.endsWith('/v1/traces') ? trimmed : `${trimmed}/v1/traces`;
+}
+
+/**
+ * Resolve the OTLP/HTTP logs URL for a configured endpoint
+ *
+ * Base URLs get `/v1/logs` appended; a full traces URL has `/v1/traces` swapped for `/v1/logs`.
+ */
+export function resolveLogsUrl(endpoint: string): string {
+  return resolveSignalUrl(endpoint, 'logs');
+}
+
+/**
+ * Resolve the OTLP/HTTP metrics URL for a configured endpoint, in the same way as logs
+ */
+export function resolveMetricsUrl(endpoint: string): string {
+  return resolveSignalUrl(endpoint, 'metrics');
+}
+
+function resolveSignalUrl(endpoint: string, signal: 'logs' | 'metrics'): string {
+  const trimmed = endpoint.replace(/\/+$/, '');
+  if (trimmed.endsWith('/v1/traces')) {
+    return `${trimmed.slice(0, -'/v1/traces'.length)}/v1/${signal}`;
+  }
+  return trimmed.endsWith(`/v1/${signal}`) ? trimmed : `${trimmed}/v1/${signal}`;
+}
+
+/**
+ * Check a custom model price; also used by `registerModelPrice()`
+ */
+export function validateModelPrice(price: ModelPriceConfig): void {
+  if (!price.model) {
+    throw new Error('pricing entries must have a model');
+  }
+  for (const rate of [price.input, price.output, price.cachedInput, price.reasoning]) {
+    if (rate !== undefined && !(rate >= 0)) {
+      throw new Error(`pricing for ${price.model} must use rates of 0 or greater`);
+    }
+  }
+  if (price.effectiveFrom !== undefined && Number.isNaN(Date.parse(price.effectiveFrom))) {
+    throw new Error(`pricing for ${price.model} has an invalid effectiveFrom date`);
+  }
+}
+
+function validateSampling(sampling: SamplingConfig): void {
+  if (sampling.ratio !== undefined && !isRatio(sampling.ratio)) {
+    throw new Error('sampling.ratio must be between 0 and 1');
+  }
+
+  for (const rule of sampling.rules ?? []) {
+    if (!isRatio(rule.ratio)) {
+      throw new Error('sampling rule ratio must be between 0 and 1');
+    }
+    if (rule.spanName === undefined && rule.provider === undefined) {
+      throw new Error('sampling rule must match on spanName or provider');
+    }
+  }
+
+  if (sampling.tail?.slowLlmCallMs !== undefined && sampling.tail.slowLlmCallMs < 0) {
+    throw new Error('sampling.tail.slowLlmCallMs must be 0 or greater');
+  }
+}
+
+function validateContentLimits(limits: ContentLimitsConfig): void {
+  if (limits.maxBytes !== undefined && limits.maxBytes < 1) {
+    throw new Error('contentLimits.maxBytes must be at least 1');
+  }
+
+  for (const [attribute, maxBytes] of Object.entries(limits.attributes ?? {})) {
+    if (maxBytes < 1) {
+      throw new Error(`contentLimits.attributes['${attribute}'] must be at least 1`);
+    }
+  }
+}
+
+function isRatio(value: number): boolean {
+  return value >= 0 && value <= 1;
+}
+
+function usesOtlpExporter(exporters: ExporterConfig[]): boolean {
+  return exporters.some((exporter) => 'type' in exporter && exporter.type === 'otlp');
+}
+
+function isHttpUrl(value: string): boolean {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
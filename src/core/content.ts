@@ -0,0 +1,97 @@
+/**
+ * Content capture modes for prompts, responses and other captured content
+ */
+
+import type { Attributes } from '@opentelemetry/api';
+import type { ContentMode } from '../types';
+import { debug } from '../utils/logger';
+
+/** All supported content modes */
+export const CONTENT_MODES: readonly ContentMode[] = [
+  'none',
+  'metadata',
+  'output-only',
+  'truncated',
+  'full',
+];
+
+/** Whether captured content is an input (prompts, tool input) or an output (responses) */
+export type ContentKind = 'input' | 'output';
+
+/** Byte limit applied to content in `truncated` mode */
+export const TRUNCATED_MODE_MAX_BYTES = 1024;
+
+/** Recorded in place of content that cannot be serialized */
+export const UNSERIALIZABLE_CONTENT = '[unserializable]';
+
+/**
+ * Serialize captured content: strings are used as-is and other values are JSON-serialized
+ *
+ * Values JSON can't represent (circular structures, BigInt, throwing `toJSON`) become
+ * `UNSERIALIZABLE_CONTENT`, so capturing content never throws into the traced code.
+ */
+export function serializeContent(value: unknown): string | undefined {
+  if (typeof value === 'string') {
+    return value;
+  }
+  try {
+    return JSON.stringify(value);
+  } catch (err) {
+    debug('Captured content could not be serialized', err);
+    return UNSERIALIZABLE_CONTENT;
+  }
+}
+
+/**
+ * How a piece of content is captured under a mode: omitted, reduced to metadata, or as text
+ */
+export function resolveCapture(
+  mode: ContentMode,
+  kind: ContentKind
+): 'omit' | 'metadata' | 'content' {
+  switch (mode) {
+    case 'none':
+      return 'omit';
+    case 'metadata':
+      return 'metadata';
+    case 'output-only':
+      return kind === 'output' ? 'content' : 'metadata';
+    case 'truncated':
+    case 'full':
+      return 'content';
+  }
+}
+
+function isMessage(value: unknown): value is { role: unknown; content?: unknown } {
+  return typeof value === 'object' && value !== null && 'role' in value;
+}
+
+function lengthOf(value: unknown): number {
+  return serializeContent(value)?.length ?? 0;
+}
+
+/**
+ * Describe content without including it: message count, roles and lengths
+ *
+ * @param key - Attribute name the content would have been stored under, used as prefix
+ */
+export function summarizeContent(key: string, value: unknown): Attributes {
+  if (Array.isArray(value) && value.length > 0 && value.every(isMessage)) {
+    const lengths = value.map((message) => lengthOf(message.content ?? ''));
+    return {
+      [`${key}.message_count`]: value.length,
+      [`${key}.roles`]: value.map((message) => String(message.role)),
+      [`${key}.message_lengths`]: lengths,
+      [`${key}.length`]: lengths.reduce((sum, length) => sum + length, 0),
+    };
+  }
+
+  if (Array.isArray(value)) {
+    return {
+      [`${key}.message_count`]: value.length,
+      [`${key}.length`]: lengthOf(value),
+    };
+  }
+
+  return { [`${key}.length`]: lengthOf(value) };
+}
@@ -0,0 +1,38 @@
+/**
+ * Async context propagation for AgentBasis SDK
+ */
+
+import { context, createContextKey, ROOT_CONTEXT } from '@opentelemetry/api';
+import { AsyncLocalStorageContextManager } from '@opentelemetry/context-async-hooks';
+
+import { debug } from '../utils/logger';
+
+const PROBE_KEY = createContextKey('agentbasis.context_manager_probe');
+
+/**
+ * Whether a working context manager is registered globally
+ *
+ * Without one the API falls back to a no-op manager and `context.with` has no effect.
+ */
+function hasContextManager(): boolean {
+  return context.with(
+    ROOT_CONTEXT.setValue(PROBE_KEY, true),
+    () => context.active().getValue(PROBE_KEY) === true
+  );
+}
+
+/**
+ * Make sure an AsyncLocalStorage-based context manager is registered so the active span and
+ * `withContext` metadata propagate across awaits
+ *
+ * A context manager registered by the application (e.g. by the OpenTelemetry Node SDK) is reused.
+ */
+export function ensureContextManager(): void {
+  if (hasContextManager()) {
+    debug('Reusing registered OpenTelemetry context manager');
+    return;
+  }
+
+  context.setGlobalContextManager(new AsyncLocalStorageContextManager().enable());
+  debug('Registered AsyncLocalStorage context manager');
+}
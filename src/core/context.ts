@@ -2,30 +2,20 @@
  * Context and trace management for AgentBasis SDK
  */
 
-import { context, trace, SpanStatusCode, type Span, type Context } from '@opentelemetry/api';
-import type { TraceContext } from '../types';
+import { context, trace, SpanStatusCode, type Span } from '@opentelemetry/api';
+import type { CapturedResult, TraceContext, TraceOptions } from '../types';
+import { SPAN_ATTRIBUTES } from './attributes';
 import { AgentBasis } from './client';
-
-/** Context key for storing AgentBasis trace context */
-const AGENTBASIS_CONTEXT_KEY = 'agentbasis.context';
-
-/**
- * Create a new context with AgentBasis metadata
- */
-function createContextWithMetadata(
-  parentContext: Context,
-  metadata: TraceContext
-): Context {
-  // Store metadata in context for later retrieval
-  return parentContext.setValue(Symbol.for(AGENTBASIS_CONTEXT_KEY), metadata);
-}
-
-/**
- * Get AgentBasis metadata from context
- */
-function getMetadataFromContext(ctx: Context): TraceContext | undefined {
-  return ctx.getValue(Symbol.for(AGENTBASIS_CONTEXT_KEY)) as TraceContext | undefined;
-}
+import {
+  isAsyncIterable,
+  isIterator,
+  observeAsyncIterable,
+  observeIterator,
+  type IterationObserver,
+  type StepRunner,
+} from './iterables';
+import { getTraceContext, setTraceContext, traceContextAttributes } from './trace-context';
+import { warn } from '../utils/logger';
 
 /**
  * Execute a function within a trace context
@@ -60,7 +50,7 @@ export async function withContext<T>(
 
   // Merge with any existing context
   const parentContext = context.active();
-  const existingMetadata = getMetadataFromContext(parentContext);
+  const existingMetadata = getTraceContext(parentContext);
   const mergedMetadata: TraceContext = {
     ...existingMetadata,
     ...traceContext,
@@ -70,26 +60,12 @@ export async function withContext<T>(
   const spanName = traceContext.traceId ?? 'context';
   const span = tracer.startSpan(spanName, undefined, parentContext);
 
-  // Add metadata as span attributes
-  if (mergedMetadata.userId) {
-    span.setAttribute('user.id', mergedMetadata.userId);
-  }
-  if (mergedMetadata.sessionId) {
-    span.setAttribute('session.id', mergedMetadata.sessionId);
-  }
-  if (mergedMetadata.traceId) {
-    span.setAttribute('agentbasis.trace_id', mergedMetadata.traceId);
-  }
-  if (mergedMetadata.metadata) {
-    for (const [key, value] of Object.entries(mergedMetadata.metadata)) {
-      if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
-        span.setAttribute(`agentbasis.metadata.${key}`, value);
-      }
-    }
-  }
+  // Descendant spans are stamped by TraceContextSpanProcessor; this span starts outside the
+  // new scope, so add the metadata directly
+  span.setAttributes(traceContextAttributes(mergedMetadata));
 
   // Create new context with span and metadata
-  const newContext = createContextWithMetadata(
+  const newContext = setTraceContext(
     trace.setSpan(parentContext, span),
     mergedMetadata
   );
@@ -117,9 +93,13 @@ export async function withContext<T>(
 /**
  * Wrap a function with tracing
  *
- * Creates a span each time the function is called.
+ * Creates a span each time the function is called. The span is active while the function runs,
+ * so spans started inside it (including LLM calls) become its children. When the function returns
+ * (or resolves to) an async iterable or generator, the span stays open until iteration finishes,
+ * throws or is stopped early, and records the item count and time to first item.
  *
  * @param name - Name for the span
+ * @param options - Span kind, attributes and argument/result capture
  * @param fn - Function to wrap
  * @returns Wrapped function that creates spans on each call
  *
@@ -134,41 +114,78 @@ export async function withContext<T>(
  *
  * // Each call creates a new span
  * await processData('hello');
+ *
+ * // Record what went in and out (subject to the content mode)
+ * const search = trace(
+ *   'search',
+ *   { attributes: (query) => ({ 'search.query_length': query.length }), captureResult: true },
+ *   async (query: string) => index.search(query)
+ * );
  * ```
  */
 export function traceFunction<TArgs extends unknown[], TReturn>(
   name: string,
   fn: (...args: TArgs) => TReturn
+): (...args: TArgs) => TReturn;
+export function traceFunction<TArgs extends unknown[], TReturn>(
+  name: string,
+  options: TraceOptions<TArgs, TReturn>,
+  fn: (...args: TArgs) => TReturn
+): (...args: TArgs) => TReturn;
+export function traceFunction<TArgs extends unknown[], TReturn>(
+  name: string,
+  optionsOrFn: TraceOptions<TArgs, TReturn> | ((...args: TArgs) => TReturn),
+  maybeFn?: (...args: TArgs) => TReturn
 ): (...args: TArgs) => TReturn {
-  return ((...args: TArgs): TReturn => {
+  const fn = typeof optionsOrFn === 'function' ? optionsOrFn : maybeFn;
+  const options: TraceOptions<TArgs, TReturn> = typeof optionsOrFn === 'function' ? {} : optionsOrFn;
+  if (!fn) {
+    throw new Error('trace() requires a function to wrap');
+  }
+
+  // A regular function so `this` is forwarded when wrapping methods
+  return function traced(this: unknown, ...args: TArgs): TReturn {
     if (!AgentBasis.isInitialized()) {
       // If SDK not initialized, just run the function
-      return fn(...args);
+      return fn.apply(this, args);
     }
 
     const client = AgentBasis.getInstance();
     const transport = client.getTransport();
-    const span = transport.startSpan(name);
-
-    // Get current context metadata
     const currentContext = context.active();
-    const metadata = getMetadataFromContext(currentContext);
+    const span = transport.startSpan(name, currentContext, {
+      kind: options.kind,
+      attributes: safely(`attributes for ${name}`, () =>
+        typeof options.attributes === 'function' ? options.attributes(...args) : options.attributes
+      ),
+    });
 
-    // Add context metadata to span
-    if (metadata?.userId) {
-      span.setAttribute('user.id', metadata.userId);
-    }
-    if (metadata?.sessionId) {
-      span.setAttribute('session.id', metadata.sessionId);
+    if (options.captureArgs !== undefined && options.captureArgs !== false) {
+      const captureArgs = options.captureArgs;
+      const input = safely(`captureArgs for ${name}`, () =>
+        typeof captureArgs === 'function' ? captureArgs(...args) : args
+      );
+      transport.setContentAttribute(span, SPAN_ATTRIBUTES.INPUT, input, 'input');
     }
 
-    const handleResult = (result: TReturn): TReturn => {
+    const spanContext = trace.setSpan(currentContext, span);
+    const startTime = Date.now();
+
+    const finish = (result: unknown): void => {
+      if (options.captureResult !== undefined && options.captureResult !== false) {
+        const captureResult = options.captureResult;
+        const output = safely(`captureResult for ${name}`, () =>
+          typeof captureResult === 'function'
+            ? captureResult(result as CapturedResult<TReturn>)
+            : result
+        );
+        transport.setContentAttribute(span, SPAN_ATTRIBUTES.OUTPUT, output, 'output');
+      }
       span.setStatus({ code: SpanStatusCode.OK });
       span.end();
-      return result;
     };
 
-    const handleError = (err: unknown): never => {
+    const fail = (err: unknown): void => {
       const error = err instanceof Error ? err : new Error(String(err));
       span.setStatus({
         code: SpanStatusCode.ERROR,
@@ -176,13 +193,62 @@ export function traceFunction<TArgs extends unknown[], TReturn>(
       });
       span.recordException(error);
       span.end();
+    };
+
+    // Keep the span open until a returned stream is exhausted, fails or is closed early
+    const observeStream = (
+      stream: AsyncIterable<unknown> | Iterator<unknown>
+    ): AsyncIterable<unknown> | Iterator<unknown> => {
+      let itemCount = 0;
+      const items: unknown[] = [];
+      const observer: IterationObserver<unknown> = {
+        onItem: (item) => {
+          itemCount++;
+          if (itemCount === 1) {
+            span.setAttribute(SPAN_ATTRIBUTES.TIME_TO_FIRST_ITEM_MS, Date.now() - startTime);
+          }
+          if (options.captureResult !== undefined && options.captureResult !== false) {
+            items.push(item);
+          }
+        },
+        onDone: (returnedEarly) => {
+          span.setAttribute(SPAN_ATTRIBUTES.ITEM_COUNT, itemCount);
+          if (returnedEarly) {
+            span.setAttribute(SPAN_ATTRIBUTES.RETURNED_EARLY, true);
+          }
+          finish(items);
+        },
+        onError: (err) => {
+          span.setAttribute(SPAN_ATTRIBUTES.ITEM_COUNT, itemCount);
+          fail(err);
+        },
+      };
+      // Run each step with the span active so work done while producing items nests under it
+      const run: StepRunner = (step) => context.with(spanContext, step);
+
+      return isAsyncIterable(stream)
+        ? observeAsyncIterable(stream, observer, run)
+        : observeIterator(stream, observer, run);
+    };
+
+    const handleResult = <T>(result: T): T => {
+      if (isAsyncIterable(result) || isIterator(result)) {
+        return observeStream(result) as T;
+      }
+      finish(result);
+      return result;
+    };
+
+    const handleError = (err: unknown): never => {
+      fail(err);
       throw err;
     };
 
     try {
-      const result = fn(...args);
+      // Run with the span active so nested spans (e.g. LLM calls) become its children
+      const result = context.with(spanContext, () => fn.apply(this, args));
 
-      // Handle async functions
+      // Handle async functions, including ones resolving to a stream
       if (result instanceof Promise) {
         return result.then(handleResult).catch(handleError) as TReturn;
       }
@@ -191,7 +257,19 @@ export function traceFunction<TArgs extends unknown[], TReturn>(
     } catch (err) {
       return handleError(err);
     }
-  }) as (...args: TArgs) => TReturn;
+  };
+}
+
+/**
+ * Run a user-supplied callback, logging instead of throwing so tracing never breaks the caller
+ */
+function safely<T>(description: string, fn: () => T): T | undefined {
+  try {
+    return fn();
+  } catch (err) {
+    warn(`trace() ${description} threw; skipping`, err);
+    return undefined;
+  }
 }
 
 // Export as 'trace' for cleaner API
@@ -204,7 +282,7 @@ export { traceFunction as trace };
  */
 export function getCurrentContext(): TraceContext | undefined {
   const ctx = context.active();
-  return getMetadataFromContext(ctx);
+  return getTraceContext(ctx);
 }
 
 /**
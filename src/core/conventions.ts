@@ -0,0 +1,149 @@
+/**
+ * OpenTelemetry GenAI semantic conventions for LLM spans
+ */
+
+import type { AttributeValue, Attributes } from '@opentelemetry/api';
+import type { SemanticConventions } from '../types';
+import { LLM_ATTRIBUTES } from './attributes';
+
+/** Supported `semanticConventions` values */
+export const SEMANTIC_CONVENTIONS: readonly SemanticConventions[] = ['agentbasis', 'genai', 'both'];
+
+/** GenAI span attributes (https://opentelemetry.io/docs/specs/semconv/gen-ai/) */
+export const GENAI_ATTRIBUTES = {
+  SYSTEM: 'gen_ai.system',
+  OPERATION_NAME: 'gen_ai.operation.name',
+  REQUEST_MODEL: 'gen_ai.request.model',
+  REQUEST_TEMPERATURE: 'gen_ai.request.temperature',
+  REQUEST_TOP_P: 'gen_ai.request.top_p',
+  REQUEST_MAX_TOKENS: 'gen_ai.request.max_tokens',
+  REQUEST_STOP_SEQUENCES: 'gen_ai.request.stop_sequences',
+  REQUEST_SEED: 'gen_ai.request.seed',
+  RESPONSE_ID: 'gen_ai.response.id',
+  RESPONSE_MODEL: 'gen_ai.response.model',
+  RESPONSE_FINISH_REASONS: 'gen_ai.response.finish_reasons',
+  OPENAI_SYSTEM_FINGERPRINT: 'gen_ai.openai.response.system_fingerprint',
+  USAGE_INPUT_TOKENS: 'gen_ai.usage.input_tokens',
+  USAGE_OUTPUT_TOKENS: 'gen_ai.usage.output_tokens',
+  PROMPT: 'gen_ai.prompt',
+  COMPLETION: 'gen_ai.completion',
+} as const;
+
+/** GenAI span events carrying prompt and completion content */
+export const GENAI_EVENTS = {
+  PROMPT: 'gen_ai.content.prompt',
+  COMPLETION: 'gen_ai.content.completion',
+} as const;
+
+/** AgentBasis attributes with a GenAI equivalent; others keep their AgentBasis name */
+const GENAI_EQUIVALENTS: Readonly<Record<string, string>> = {
+  [LLM_ATTRIBUTES.PROVIDER]: GENAI_ATTRIBUTES.SYSTEM,
+  [LLM_ATTRIBUTES.MODEL]: GENAI_ATTRIBUTES.REQUEST_MODEL,
+  [LLM_ATTRIBUTES.REQUEST_TEMPERATURE]: GENAI_ATTRIBUTES.REQUEST_TEMPERATURE,
+  [LLM_ATTRIBUTES.REQUEST_TOP_P]: GENAI_ATTRIBUTES.REQUEST_TOP_P,
+  [LLM_ATTRIBUTES.REQUEST_MAX_TOKENS]: GENAI_ATTRIBUTES.REQUEST_MAX_TOKENS,
+  [LLM_ATTRIBUTES.REQUEST_STOP_SEQUENCES]: GENAI_ATTRIBUTES.REQUEST_STOP_SEQUENCES,
+  [LLM_ATTRIBUTES.REQUEST_SEED]: GENAI_ATTRIBUTES.REQUEST_SEED,
+  [LLM_ATTRIBUTES.RESPONSE_ID]: GENAI_ATTRIBUTES.RESPONSE_ID,
+  [LLM_ATTRIBUTES.RESPONSE_MODEL]: GENAI_ATTRIBUTES.RESPONSE_MODEL,
+  [LLM_ATTRIBUTES.FINISH_REASONS]: GENAI_ATTRIBUTES.RESPONSE_FINISH_REASONS,
+  [LLM_ATTRIBUTES.SYSTEM_FINGERPRINT]: GENAI_ATTRIBUTES.OPENAI_SYSTEM_FINGERPRINT,
+  [LLM_ATTRIBUTES.INPUT_TOKENS]: GENAI_ATTRIBUTES.USAGE_INPUT_TOKENS,
+  [LLM_ATTRIBUTES.OUTPUT_TOKENS]: GENAI_ATTRIBUTES.USAGE_OUTPUT_TOKENS,
+};
+
+/** Content attributes recorded as GenAI events, keyed by AgentBasis attribute */
+export const GENAI_CONTENT_EVENTS: Readonly<
+  Record<string, { event: string; attribute: string } | undefined>
+> = {
+  [LLM_ATTRIBUTES.PROMPT]: { event: GENAI_EVENTS.PROMPT, attribute: GENAI_ATTRIBUTES.PROMPT },
+  [LLM_ATTRIBUTES.RESPONSE]: {
+    event: GENAI_EVENTS.COMPLETION,
+    attribute: GENAI_ATTRIBUTES.COMPLETION,
+  },
+};
+
+/** `gen_ai.system` values that differ from AgentBasis provider names */
+const GENAI_SYSTEMS: Readonly<Record<string, string>> = {
+  gemini: 'gcp.gemini',
+};
+
+/**
+ * Whether a conventions mode emits the AgentBasis `llm.*` attributes
+ */
+export function emitsAgentBasis(conventions: SemanticConventions): boolean {
+  return conventions !== 'genai';
+}
+
+/**
+ * Whether a conventions mode emits the GenAI `gen_ai.*` attributes and events
+ */
+export function emitsGenAI(conventions: SemanticConventions): boolean {
+  return conventions !== 'agentbasis';
+}
+
+/**
+ * Rename LLM span attributes for a conventions mode
+ *
+ * In `genai` mode attributes with a GenAI equivalent are renamed, in `both` mode the equivalent
+ * is added alongside, and attributes without one are always kept as-is.
+ */
+export function applyConventions(
+  attributes: Attributes,
+  conventions: SemanticConventions
+): Attributes {
+  if (!emitsGenAI(conventions)) {
+    return attributes;
+  }
+
+  const result: Attributes = {};
+  for (const [key, value] of Object.entries(attributes)) {
+    const genaiKey = GENAI_EQUIVALENTS[key];
+    if (genaiKey === undefined || emitsAgentBasis(conventions)) {
+      result[key] = value;
+    }
+    if (genaiKey !== undefined) {
+      result[genaiKey] = genaiKey === GENAI_ATTRIBUTES.SYSTEM ? toGenAISystem(value) : value;
+    }
+  }
+  return result;
+}
+
+/**
+ * Read an LLM span attribute by its AgentBasis key, falling back to the GenAI equivalent
+ *
+ * `gen_ai.system` values are mapped back to AgentBasis provider names.
+ */
+export function readLLMAttribute(attributes: Attributes, key: string): AttributeValue | undefined {
+  const value = attributes[key];
+  if (value !== undefined) {
+    return value;
+  }
+
+  const genaiKey = GENAI_EQUIVALENTS[key];
+  const genaiValue = genaiKey !== undefined ? attributes[genaiKey] : undefined;
+  if (genaiKey === GENAI_ATTRIBUTES.SYSTEM && typeof genaiValue === 'string') {
+    return (
+      Object.keys(GENAI_SYSTEMS).find((provider) => GENAI_SYSTEMS[provider] === genaiValue) ??
+      genaiValue
+    );
+  }
+  return genaiValue;
+}
+
+/**
+ * Infer `gen_ai.operation.name` from an LLM span name such as `openai.embeddings.create`
+ */
+export function genAIOperationName(spanName: string): string {
+  if (/embed/i.test(spanName)) {
+    return 'embeddings';
+  }
+  if (!/chat/i.test(spanName) && /(^|\.)(completions\.create|llm)$/.test(spanName)) {
+    return 'text_completion';
+  }
+  return 'chat';
+}
+
+function toGenAISystem(value: AttributeValue | undefined): AttributeValue | undefined {
+  return typeof value === 'string' ? (GENAI_SYSTEMS[value] ?? value) : value;
+}
@@ -0,0 +1,169 @@
+/**
+ * Decorators for tracing class methods
+ *
+ * Both TypeScript 5 standard decorators and legacy `experimentalDecorators` are supported; the
+ * calling convention is detected at runtime.
+ */
+
+import type { TracedClassOptions, TracedOptions } from '../types';
+import { traceFunction } from './context';
+import { warn } from '../utils/logger';
+
+/** Marks methods that are already traced so `@tracedClass()` doesn't wrap them twice */
+const TRACED_MARKER = Symbol.for('agentbasis.traced');
+
+type Method = (this: unknown, ...args: unknown[]) => unknown;
+
+/**
+ * Method decorator usable with standard and legacy decorators
+ */
+export interface TracedMethodDecorator {
+  <This, Args extends unknown[], Return>(
+    value: (this: This, ...args: Args) => Return,
+    context: ClassMethodDecoratorContext<This, (this: This, ...args: Args) => Return>
+  ): (this: This, ...args: Args) => Return;
+  (
+    target: object,
+    propertyKey: string | symbol,
+    descriptor: PropertyDescriptor
+  ): PropertyDescriptor;
+}
+
+/**
+ * Class decorator usable with standard and legacy decorators
+ */
+export interface TracedClassDecorator {
+  <Class extends abstract new (...args: never[]) => unknown>(
+    value: Class,
+    context: ClassDecoratorContext<Class>
+  ): void;
+  (target: abstract new (...args: never[]) => unknown): void;
+}
+
+function isStandardContext(value: unknown): value is DecoratorContext {
+  return typeof value === 'object' && value !== null && 'kind' in value;
+}
+
+/**
+ * `ClassName.methodName` for the receiver of a call (instances and, for static methods, classes)
+ */
+function defaultSpanName(self: unknown, methodName: string): string {
+  const owner: unknown =
+    typeof self === 'function' ? self : (self as { constructor?: unknown } | null)?.constructor;
+  const className = typeof owner === 'function' && owner.name ? owner.name : 'anonymous';
+  return `${className}.${methodName}`;
+}
+
+function isTraced(method: unknown): boolean {
+  return typeof method === 'function' && TRACED_MARKER in method;
+}
+
+function wrapMethod(method: Method, methodName: string, options: TracedOptions): Method {
+  const { name, ...traceOptions } = options;
+
+  const wrapped = function (this: unknown, ...args: unknown[]): unknown {
+    return traceFunction(name ?? defaultSpanName(this, methodName), traceOptions, method).apply(
+      this,
+      args
+    );
+  };
+  Object.defineProperty(wrapped, 'name', { value: method.name });
+  Object.defineProperty(wrapped, TRACED_MARKER, { value: true });
+  return wrapped;
+}
+
+/**
+ * Trace every call of a method
+ *
+ * Uses `trace()` semantics: sync, async and generator methods are supported, and the span is
+ * active while the method runs.
+ *
+ * @param nameOrOptions - Span name, or `trace()` options plus an optional `name`
+ *
+ * @example
+ * ```typescript
+ * class Planner {
+ *   @traced()
+ *   async plan(goal: string) { ... }
+ *
+ *   @traced({ name: 'planner.stream', captureResult: true })
+ *   async *stream(goal: string) { ... }
+ * }
+ * ```
+ */
+export function traced(nameOrOptions?: string | TracedOptions): TracedMethodDecorator {
+  const options: TracedOptions =
+    typeof nameOrOptions === 'string' ? { name: nameOrOptions } : (nameOrOptions ?? {});
+
+  return ((...args: unknown[]): unknown => {
+    const [target, contextOrKey, descriptor] = args;
+
+    if (isStandardContext(contextOrKey)) {
+      if (contextOrKey.kind !== 'method' || typeof target !== 'function') {
+        warn(`@traced() only applies to methods; ignoring it on a ${contextOrKey.kind}`);
+        return target;
+      }
+      return wrapMethod(target as Method, String(contextOrKey.name), options);
+    }
+
+    const legacy = descriptor as PropertyDescriptor | undefined;
+    if (typeof legacy?.value !== 'function') {
+      warn(`@traced() only applies to methods; ignoring it on ${String(contextOrKey)}`);
+      return legacy;
+    }
+    legacy.value = wrapMethod(legacy.value as Method, String(contextOrKey), options);
+    return legacy;
+  }) as TracedMethodDecorator;
+}
+
+/**
+ * Wrap the methods declared on a class (and its prototype) in place
+ */
+function traceClassMethods(target: object, options: TracedClassOptions): void {
+  const { exclude = [], ...traceOptions } = options;
+
+  for (const owner of [(target as { prototype: object }).prototype, target]) {
+    for (const key of Object.getOwnPropertyNames(owner)) {
+      if (key === 'constructor' || exclude.includes(key)) {
+        continue;
+      }
+      const descriptor = Object.getOwnPropertyDescriptor(owner, key);
+      // Skip getters/setters, non-method statics (length, name, prototype) and traced methods
+      if (
+        typeof descriptor?.value !== 'function' ||
+        isTraced(descriptor.value) ||
+        key === 'prototype'
+      ) {
+        continue;
+      }
+      Object.defineProperty(owner, key, {
+        ...descriptor,
+        value: wrapMethod(descriptor.value as Method, key, traceOptions),
+      });
+    }
+  }
+}
+
+/**
+ * Trace every method of a class, including static methods
+ *
+ * Methods already decorated with `@traced()` keep their own options.
+ *
+ * @example
+ * ```typescript
+ * @tracedClass({ exclude: ['toString'] })
+ * class RetrievalService {
+ *   async search(query: string) { ... }
+ *   async rerank(results: Result[]) { ... }
+ * }
+ * ```
+ */
+export function tracedClass(options: TracedClassOptions = {}): TracedClassDecorator {
+  return ((target: abstract new (...args: never[]) => unknown, context?: unknown): void => {
+    if (isStandardContext(context) && context.kind !== 'class') {
+      warn(`@tracedClass() only applies to classes; ignoring it on a ${context.kind}`);
+      return;
+    }
+    traceClassMethods(target, options);
+  }) as TracedClassDecorator;
+}
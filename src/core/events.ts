@@ -0,0 +1,98 @@
+/**
+ * Log and error events for the agent timeline
+ */
+
+import { context, trace, type Attributes } from '@opentelemetry/api';
+import { SeverityNumber } from '@opentelemetry/api-logs';
+
+import type { LogLevel } from '../types';
+import { EVENT_ATTRIBUTES } from './attributes';
+import { getTraceContext, traceContextAttributes } from './trace-context';
+import type { Transport } from './transport';
+
+const SEVERITY_NUMBERS: Record<LogLevel, SeverityNumber> = {
+  debug: SeverityNumber.DEBUG,
+  info: SeverityNumber.INFO,
+  warn: SeverityNumber.WARN,
+  error: SeverityNumber.ERROR,
+};
+
+/**
+ * Record a log message as a `log` event on the active span, or as an OTLP log record when no
+ * span is active or the active span has ended
+ */
+export function emitLog(
+  transport: Transport,
+  level: LogLevel,
+  message: string,
+  data?: unknown
+): void {
+  const attributes: Attributes = {
+    [EVENT_ATTRIBUTES.LOG_LEVEL]: level,
+    [EVENT_ATTRIBUTES.LOG_MESSAGE]: message,
+  };
+  if (data !== undefined) {
+    attributes[EVENT_ATTRIBUTES.LOG_DATA] = transport.formatEventData(
+      EVENT_ATTRIBUTES.LOG_DATA,
+      data
+    );
+  }
+
+  emit(transport, 'log', level, message, attributes);
+}
+
+/**
+ * Record a handled error as an `exception` event on the active span, or as an OTLP log record
+ * when no span is active or the active span has ended
+ *
+ * Unlike a failing `trace()` or `span()` call, this does not mark the span as failed.
+ */
+export function emitError(transport: Transport, err: unknown, extra?: unknown): void {
+  const error = err instanceof Error ? err : new Error(String(err));
+  const attributes: Attributes = {
+    [EVENT_ATTRIBUTES.EXCEPTION_TYPE]: error.name,
+    [EVENT_ATTRIBUTES.EXCEPTION_MESSAGE]: error.message,
+    [EVENT_ATTRIBUTES.EXCEPTION_HANDLED]: true,
+  };
+  if (error.stack !== undefined) {
+    attributes[EVENT_ATTRIBUTES.EXCEPTION_STACKTRACE] = error.stack;
+  }
+  if (extra !== undefined) {
+    attributes[EVENT_ATTRIBUTES.ERROR_EXTRA] = transport.formatEventData(
+      EVENT_ATTRIBUTES.ERROR_EXTRA,
+      extra
+    );
+  }
+
+  emit(transport, 'exception', 'error', error.message, attributes);
+}
+
+function emit(
+  transport: Transport,
+  eventName: string,
+  level: LogLevel,
+  body: string,
+  attributes: Attributes
+): void {
+  const activeContext = context.active();
+
+  // Spans already carry the trace context attributes, so the event only needs its own. Events
+  // added to an ended span would be dropped, so those fall through to a log record.
+  const span = trace.getSpan(activeContext);
+  if (span?.isRecording() === true) {
+    span.addEvent(eventName, attributes);
+    return;
+  }
+
+  const traceContext = getTraceContext(activeContext);
+  transport.getLogger().emit({
+    severityNumber: SEVERITY_NUMBERS[level],
+    severityText: level.toUpperCase(),
+    body,
+    attributes: {
+      ...(traceContext ? traceContextAttributes(traceContext) : {}),
+      ...attributes,
+    },
+    context: activeContext,
+  });
+}
@@ -0,0 +1,448 @@
+/**
+ * Built-in span exporters for AgentBasis SDK
+ */
+
+import { appendFile, mkdir } from 'fs/promises';
+import { dirname } from 'path';
+import { ExportResultCode, hrTimeToMilliseconds, type ExportResult } from '@opentelemetry/core';
+import {
+  ConsoleSpanExporter,
+  InMemorySpanExporter,
+  type ReadableSpan,
+  type SpanExporter,
+} from '@opentelemetry/sdk-trace-base';
+import { OTLPTraceExporter } from '@opentelemetry/exporter-trace-otlp-http';
+import { OTLPLogExporter } from '@opentelemetry/exporter-logs-otlp-http';
+import { OTLPMetricExporter } from '@opentelemetry/exporter-metrics-otlp-http';
+import {
+  ConsoleLogRecordExporter,
+  InMemoryLogRecordExporter,
+  type LogRecordExporter,
+} from '@opentelemetry/sdk-logs';
+import {
+  AggregationTemporality,
+  ConsoleMetricExporter,
+  InMemoryMetricExporter,
+  type PushMetricExporter,
+} from '@opentelemetry/sdk-metrics';
+
+import type { AgentBasisConfig, ExporterConfig } from '../types';
+import { resolveLogsUrl, resolveMetricsUrl, resolveTracesUrl } from './config';
+import { DiskSpool } from './spool';
+import { debug, error as logError, warn } from '../utils/logger';
+
+/** HTTP status codes that are retried in addition to any 5xx response */
+const RETRYABLE_STATUS_CODES = new Set([408, 429]);
+
+/** Default delay before the first retry */
+const DEFAULT_INITIAL_BACKOFF_MS = 1000;
+
+/** Upper bound for a single backoff delay */
+const DEFAULT_MAX_BACKOFF_MS = 30000;
+
+/**
+ * Plain JSON representation of a finished span
+ */
+export interface SerializedSpan {
+  traceId: string;
+  spanId: string;
+  parentSpanId?: string;
+  name: string;
+  kind: number;
+  startTimeMs: number;
+  endTimeMs: number;
+  durationMs: number;
+  status: { code: number; message?: string };
+  attributes: Record<string, unknown>;
+  events: Array<{ name: string; timeMs: number; attributes?: Record<string, unknown> }>;
+  resource: Record<string, unknown>;
+}
+
+/**
+ * Convert a finished span into a JSON-serializable record
+ */
+export function serializeSpan(span: ReadableSpan): SerializedSpan {
+  const spanContext = span.spanContext();
+  const serialized: SerializedSpan = {
+    traceId: spanContext.traceId,
+    spanId: spanContext.spanId,
+    name: span.name,
+    kind: span.kind,
+    startTimeMs: hrTimeToMilliseconds(span.startTime),
+    endTimeMs: hrTimeToMilliseconds(span.endTime),
+    durationMs: hrTimeToMilliseconds(span.duration),
+    status: span.status.message !== undefined
+      ? { code: span.status.code, message: span.status.message }
+      : { code: span.status.code },
+    attributes: { ...span.attributes },
+    events: span.events.map((event) => ({
+      name: event.name,
+      timeMs: hrTimeToMilliseconds(event.time),
+      ...(event.attributes ? { attributes: { ...event.attributes } } : {}),
+    })),
+    resource: { ...span.resource.attributes },
+  };
+
+  if (span.parentSpanId) {
+    serialized.parentSpanId = span.parentSpanId;
+  }
+
+  return serialized;
+}
+
+/**
+ * Exporter that appends spans to a newline-delimited JSON file
+ *
+ * Each line is one {@link SerializedSpan}. Parent directories are created on first write.
+ */
+export class FileSpanExporter implements SpanExporter {
+  private readonly path: string;
+  private pending: Promise<void> = Promise.resolve();
+  private isShutdown = false;
+
+  constructor(path: string) {
+    this.path = path;
+  }
+
+  export(spans: ReadableSpan[], resultCallback: (result: ExportResult) => void): void {
+    if (this.isShutdown) {
+      resultCallback({ code: ExportResultCode.FAILED, error: new Error('Exporter is shut down') });
+      return;
+    }
+
+    const lines = spans.map((span) => `${JSON.stringify(serializeSpan(span))}\n`).join('');
+
+    // Chain writes so lines from concurrent batches never interleave
+    this.pending = this.pending
+      .then(async () => {
+        await mkdir(dirname(this.path), { recursive: true });
+        await appendFile(this.path, lines, 'utf8');
+      })
+      .then(
+        () => resultCallback({ code: ExportResultCode.SUCCESS }),
+        (err: unknown) => {
+          const error = err instanceof Error ? err : new Error(String(err));
+          logError(`Failed to write spans to ${this.path}`, error);
+          resultCallback({ code: ExportResultCode.FAILED, error });
+        }
+      );
+  }
+
+  async forceFlush(): Promise<void> {
+    await this.pending;
+  }
+
+  async shutdown(): Promise<void> {
+    this.isShutdown = true;
+    await this.pending;
+  }
+}
+
+/**
+ * Retry settings for OTLP export
+ */
+export interface RetryOptions {
+  /** Number of retries after the first attempt */
+  maxRetries: number;
+
+  /** Base delay for exponential backoff (default: 1000ms) */
+  initialBackoffMs?: number;
+
+  /** Maximum delay between attempts, including `Retry-After` delays (default: 30000ms) */
+  maxBackoffMs?: number;
+}
+
+/**
+ * Error raised when an export attempt fails
+ */
+class ExportAttemptError extends Error {
+  readonly code?: number;
+  readonly retryAfterMs?: number;
+
+  constructor(message: string, code?: number, retryAfterMs?: number) {
+    super(message);
+    this.name = 'ExportAttemptError';
+    if (code !== undefined) {
+      this.code = code;
+    }
+    if (retryAfterMs !== undefined) {
+      this.retryAfterMs = retryAfterMs;
+    }
+  }
+}
+
+/**
+ * Parse a Retry-After header (delta seconds or HTTP date) into milliseconds
+ */
+export function parseRetryAfter(value: string | null, now = Date.now()): number | undefined {
+  if (value === null || value.trim() === '') {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  return isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * Exponential backoff with full jitter for the given retry attempt (0-based)
+ */
+export function computeBackoff(attempt: number, initialBackoffMs: number, maxBackoffMs: number): number {
+  const ceiling = Math.min(maxBackoffMs, initialBackoffMs * 2 ** attempt);
+  return Math.round(Math.random() * ceiling);
+}
+
+/**
+ * OTLP/HTTP trace exporter that honors `maxRetries`
+ *
+ * Retries 408, 429 and 5xx responses as well as network errors with exponential backoff and
+ * jitter. A `Retry-After` header on the response takes precedence over the computed delay, capped
+ * at `maxBackoffMs`.
+ * With a spool, batches that still fail with a retryable error are written to disk and replayed
+ * on the next flush and when the exporter is created again on process start; rejected batches
+ * are dropped.
+ */
+export class RetryingOTLPTraceExporter extends OTLPTraceExporter {
+  private readonly retry: Required<RetryOptions>;
+  private readonly spool: DiskSpool | undefined;
+  private readonly retryTimers = new Map<ReturnType<typeof setTimeout>, () => void>();
+  private stopped = false;
+
+  constructor(
+    config: ConstructorParameters<typeof OTLPTraceExporter>[0],
+    retry: RetryOptions,
+    spool?: DiskSpool
+  ) {
+    super(config);
+    this.retry = {
+      maxRetries: retry.maxRetries,
+      initialBackoffMs: retry.initialBackoffMs ?? DEFAULT_INITIAL_BACKOFF_MS,
+      maxBackoffMs: retry.maxBackoffMs ?? DEFAULT_MAX_BACKOFF_MS,
+    };
+    this.spool = spool;
+
+    // Deliver anything left over from a previous run
+    if (this.spool) {
+      void this.replaySpool();
+    }
+  }
+
+  override send(
+    objects: ReadableSpan[],
+    onSuccess: () => void,
+    onError: (error: ExportAttemptError) => void
+  ): void {
+    const body = JSON.stringify(this.convert(objects));
+    this.sendWithRetry(body, objects.length)
+      .then(onSuccess)
+      .catch(async (error: ExportAttemptError) => {
+        // Rejected batches (400, 401, 413, ...) would fail again on replay
+        if (isRetryableError(error)) {
+          await this.spool?.write(body);
+        } else if (this.spool) {
+          warn(`Not spooling batch rejected with status ${error.code}`);
+        }
+        onError(error);
+      });
+  }
+
+  override async forceFlush(): Promise<void> {
+    await super.forceFlush();
+    await this.replaySpool();
+  }
+
+  /**
+   * Replay spooled batches with a single attempt each
+   *
+   * @returns Number of batches delivered
+   */
+  async replaySpool(): Promise<number> {
+    if (!this.spool) {
+      return 0;
+    }
+    return this.spool.replay((body) => this.sendOnce(body), isRetryableError);
+  }
+
+  override onShutdown(): void {
+    // Wake up pending retries so shutdown doesn't wait out long backoff delays
+    this.stopped = true;
+    for (const [timer, wake] of this.retryTimers) {
+      clearTimeout(timer);
+      wake();
+    }
+    this.retryTimers.clear();
+  }
+
+  private async sendWithRetry(body: string, spanCount: number): Promise<void> {
+    const attempts = this.retry.maxRetries + 1;
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        await this.sendOnce(body);
+        return;
+      } catch (err) {
+        const error = err instanceof ExportAttemptError ? err : new ExportAttemptError(String(err));
+        if (!isRetryableError(error) || attempt + 1 >= attempts || this.stopped) {
+          logError(
+            `Failed to export ${spanCount} spans after ${attempt + 1} attempt(s): ${error.message}`
+          );
+          throw error;
+        }
+
+        const delay =
+          error.retryAfterMs !== undefined
+            ? Math.min(error.retryAfterMs, this.retry.maxBackoffMs)
+            : computeBackoff(attempt, this.retry.initialBackoffMs, this.retry.maxBackoffMs);
+        debug(`Export attempt ${attempt + 1} failed, retrying in ${delay}ms`, {
+          status: error.code,
+        });
+        await this.sleep(delay);
+      }
+    }
+  }
+
+  private async sendOnce(body: string): Promise<void> {
+    let response: Response;
+    try {
+      response = await fetch(this.url, {
+        method: 'POST',
+        headers: { ...this.headers, 'Content-Type': 'application/json' },
+        body,
+        signal: AbortSignal.timeout(this.timeoutMillis),
+      });
+    } catch (err) {
+      throw new ExportAttemptError(err instanceof Error ? err.message : String(err));
+    }
+
+    if (!response.ok) {
+      throw new ExportAttemptError(
+        `Export failed with status ${response.status}`,
+        response.status,
+        parseRetryAfter(response.headers.get('retry-after'))
+      );
+    }
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => {
+      const timer = setTimeout(() => {
+        this.retryTimers.delete(timer);
+        resolve();
+      }, ms);
+      // Don't keep the process alive just to retry; shutdown wakes pending retries instead
+      timer.unref?.();
+      this.retryTimers.set(timer, resolve);
+    });
+  }
+}
+
+function isRetryableStatus(status: number): boolean {
+  return RETRYABLE_STATUS_CODES.has(status) || (status >= 500 && status < 600);
+}
+
+/**
+ * Whether an export failure may succeed later: network errors and retryable statuses
+ */
+function isRetryableError(error: unknown): boolean {
+  if (!(error instanceof ExportAttemptError)) {
+    return true;
+  }
+  return error.code === undefined || isRetryableStatus(error.code);
+}
+
+/**
+ * Create the exporter described by an exporter config entry
+ */
+export function createExporter(exporterConfig: ExporterConfig, config: AgentBasisConfig): SpanExporter {
+  if (!('type' in exporterConfig)) {
+    return exporterConfig;
+  }
+
+  switch (exporterConfig.type) {
+    case 'otlp':
+      return new RetryingOTLPTraceExporter(
+        {
+          url: resolveTracesUrl(config.endpoint),
+          headers: otlpHeaders(config),
+        },
+        { maxRetries: config.maxRetries },
+        config.spool ? new DiskSpool(config.spool) : undefined
+      );
+    case 'console':
+      return new ConsoleSpanExporter();
+    case 'file':
+      return new FileSpanExporter(exporterConfig.path);
+    case 'memory':
+      return new InMemorySpanExporter();
+  }
+}
+
+/**
+ * Create the log record exporter matching an exporter config entry
+ *
+ * Log records go to the OTLP logs endpoint, the console or memory. File exporters and custom
+ * span exporters have no logs counterpart and return undefined.
+ */
+export function createLogExporter(
+  exporterConfig: ExporterConfig,
+  config: AgentBasisConfig
+): LogRecordExporter | undefined {
+  if (!('type' in exporterConfig)) {
+    return undefined;
+  }
+
+  switch (exporterConfig.type) {
+    case 'otlp':
+      return new OTLPLogExporter({
+        url: resolveLogsUrl(config.endpoint),
+        headers: otlpHeaders(config),
+      });
+    case 'console':
+      return new ConsoleLogRecordExporter();
+    case 'memory':
+      return new InMemoryLogRecordExporter();
+    case 'file':
+      return undefined;
+  }
+}
+
+/**
+ * Create the metric exporter matching an exporter config entry
+ *
+ * Like log records, metrics have no file or custom-exporter counterpart.
+ */
+export function createMetricExporter(
+  exporterConfig: ExporterConfig,
+  config: AgentBasisConfig
+): PushMetricExporter | undefined {
+  if (!('type' in exporterConfig)) {
+    return undefined;
+  }
+
+  switch (exporterConfig.type) {
+    case 'otlp':
+      return new OTLPMetricExporter({
+        url: resolveMetricsUrl(config.endpoint),
+        headers: otlpHeaders(config),
+      });
+    case 'console':
+      return new ConsoleMetricExporter();
+    case 'memory':
+      return new InMemoryMetricExporter(AggregationTemporality.CUMULATIVE);
+    case 'file':
+      return undefined;
+  }
+}
+
+function otlpHeaders(config: AgentBasisConfig): Record<string, string> {
+  return {
+    ...(config.apiKey ? { 'Authorization': `Bearer ${config.apiKey}` } : {}),
+    'X-Agent-ID': config.agentId,
+  };
+}
+
+export { InMemorySpanExporter, InMemoryLogRecordExporter, InMemoryMetricExporter };
@@ -0,0 +1,168 @@
+/**
+ * Helpers for observing sync and async iteration without changing what consumers see
+ */
+
+/** Callbacks invoked as an observed iterator is consumed */
+export interface IterationObserver<T> {
+  /** Called for every produced item */
+  onItem(item: T): void;
+
+  /** Called once when iteration finishes; `returnedEarly` when the consumer stopped first */
+  onDone(returnedEarly: boolean): void;
+
+  /** Called once if the iterator throws */
+  onError(err: unknown): void;
+}
+
+/** Runs each step of the underlying iterator, e.g. inside an OpenTelemetry context */
+export type StepRunner = <R>(step: () => R) => R;
+
+export function isAsyncIterable(value: unknown): value is AsyncIterable<unknown> {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as Partial<AsyncIterable<unknown>>)[Symbol.asyncIterator] === 'function'
+  );
+}
+
+/**
+ * Whether a value is a sync iterator such as a generator object
+ *
+ * Plain iterables like arrays, strings, maps and sets are deliberately excluded; they are complete
+ * values rather than lazily produced sequences.
+ */
+export function isIterator(value: unknown): value is Iterator<unknown> & Iterable<unknown> {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as Partial<Iterator<unknown>>).next === 'function' &&
+    typeof (value as Partial<Iterable<unknown>>)[Symbol.iterator] === 'function'
+  );
+}
+
+function observeAsyncIterator<T>(
+  iterator: AsyncIterator<T>,
+  observer: IterationObserver<T>,
+  run: StepRunner
+): AsyncGenerator<T, unknown, unknown> {
+  let finished = false;
+
+  const step = async (
+    advance: () => Promise<IteratorResult<T>>,
+    returning: boolean
+  ): Promise<IteratorResult<T>> => {
+    if (finished) {
+      return advance();
+    }
+    try {
+      const result = await run(advance);
+      if (result.done === true || returning) {
+        finished = true;
+        observer.onDone(returning);
+      } else {
+        observer.onItem(result.value);
+      }
+      return result;
+    } catch (err) {
+      finished = true;
+      observer.onError(err);
+      throw err;
+    }
+  };
+
+  return {
+    next: (...args: [] | [unknown]) => step(() => iterator.next(...args), false),
+    return: (value?: unknown) =>
+      step(
+        () =>
+          iterator.return
+            ? iterator.return(value)
+            : Promise.resolve({ done: true, value } as IteratorResult<T>),
+        true
+      ),
+    throw: (err?: unknown) =>
+      step(() => (iterator.throw ? iterator.throw(err) : Promise.reject(err)), false),
+    [Symbol.asyncIterator](): AsyncGenerator<T, unknown, unknown> {
+      return this;
+    },
+  };
+}
+
+/**
+ * Observe an async iterable as it is consumed
+ *
+ * Async generator objects are replaced by an equivalent generator. Other async iterables (SDK
+ * stream objects, `ReadableStream`) are proxied so their own properties and methods stay usable.
+ */
+export function observeAsyncIterable<T>(
+  iterable: AsyncIterable<T>,
+  observer: IterationObserver<T>,
+  run: StepRunner
+): AsyncIterable<T> {
+  // Async generator objects are their own iterators; don't call [Symbol.asyncIterator] to check,
+  // since that locks some iterables such as ReadableStream
+  if (typeof (iterable as Partial<AsyncIterator<T>>).next === 'function') {
+    return observeAsyncIterator(iterable as unknown as AsyncIterator<T>, observer, run);
+  }
+
+  return new Proxy(iterable, {
+    get(target, property): unknown {
+      if (property === Symbol.asyncIterator) {
+        return () => observeAsyncIterator(target[Symbol.asyncIterator](), observer, run);
+      }
+      const value: unknown = Reflect.get(target, property, target);
+      return typeof value === 'function' ? (value.bind(target) as unknown) : value;
+    },
+  });
+}
+
+/**
+ * Observe a sync iterator (e.g. a generator object) as it is consumed
+ */
+export function observeIterator<T>(
+  iterator: Iterator<T>,
+  observer: IterationObserver<T>,
+  run: StepRunner
+): Generator<T, unknown, unknown> {
+  let finished = false;
+
+  const step = (advance: () => IteratorResult<T>, returning: boolean): IteratorResult<T> => {
+    if (finished) {
+      return advance();
+    }
+    try {
+      const result = run(advance);
+      if (result.done === true || returning) {
+        finished = true;
+        observer.onDone(returning);
+      } else {
+        observer.onItem(result.value);
+      }
+      return result;
+    } catch (err) {
+      finished = true;
+      observer.onError(err);
+      throw err;
+    }
+  };
+
+  return {
+    next: (...args: [] | [unknown]) => step(() => iterator.next(...args), false),
+    return: (value?: unknown) =>
+      step(
+        () =>
+          iterator.return ? iterator.return(value) : ({ done: true, value } as IteratorResult<T>),
+        true
+      ),
+    throw: (err?: unknown) =>
+      step(() => {
+        if (iterator.throw) {
+          return iterator.throw(err);
+        }
+        throw err;
+      }, false),
+    [Symbol.iterator](): Generator<T, unknown, unknown> {
+      return this;
+    },
+  };
+}
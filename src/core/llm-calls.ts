@@ -0,0 +1,155 @@
+/**
+ * Manual reporting of LLM calls made without auto-instrumentation
+ */
+
+import { INVALID_SPAN_CONTEXT, trace, type Span } from '@opentelemetry/api';
+
+import type { LLMCallOptions, LLMCallRecord, LLMCallResult } from '../types';
+import { traceContextAttributes } from './trace-context';
+import type { Transport } from './transport';
+
+/**
+ * Handle for an in-flight LLM call started with `startLLMCall()`
+ *
+ * Produces the same span and attributes as the provider integrations. Calling `end()` more than
+ * once has no effect.
+ */
+export class LLMCallHandle {
+  /** Underlying OpenTelemetry span */
+  readonly otelSpan: Span;
+
+  private readonly transport: Transport | null;
+  private readonly prompt: unknown;
+  private ended = false;
+
+  constructor(otelSpan: Span, transport: Transport | null, prompt: unknown) {
+    this.otelSpan = otelSpan;
+    this.transport = transport;
+    this.prompt = prompt;
+  }
+
+  /**
+   * Note that the first streamed token arrived, to record the time to first token
+   */
+  markFirstToken(): void {
+    this.transport?.markFirstToken(this.otelSpan);
+  }
+
+  /**
+   * Finish the call with its usage, response and outcome
+   */
+  end(result: LLMCallResult = {}): void {
+    if (this.ended) {
+      return;
+    }
+    this.ended = true;
+
+    if (!this.transport) {
+      return;
+    }
+    this.transport.endLLMSpan(this.otelSpan, {
+      inputTokens: result.inputTokens,
+      outputTokens: result.outputTokens,
+      totalTokens: result.totalTokens,
+      cachedInputTokens: result.cachedInputTokens,
+      reasoningTokens: result.reasoningTokens,
+      prompt: this.prompt,
+      response: result.response,
+      toolCalls: result.toolCalls,
+      streamed: result.streamed,
+      finishReasons: result.finishReasons,
+      responseId: result.responseId,
+      responseModel: result.responseModel,
+      systemFingerprint: result.systemFingerprint,
+      statusCode: result.statusCode,
+      timeToFirstTokenMs: result.timeToFirstTokenMs,
+      error: toError(result.error),
+    });
+  }
+}
+
+/**
+ * Start an LLM span under the active context
+ *
+ * Without a transport (SDK not initialized) the handle wraps a non-recording span.
+ */
+export function startLLMCallSpan(
+  transport: Transport | null,
+  options: LLMCallOptions,
+  startTime?: Date
+): LLMCallHandle {
+  if (!transport) {
+    return new LLMCallHandle(trace.wrapSpanContext(INVALID_SPAN_CONTEXT), null, undefined);
+  }
+
+  const span = transport.startLLMSpan(
+    options.name ?? `${options.provider}.llm_call`,
+    options.provider,
+    options.model,
+    undefined,
+    startTime
+  );
+  if (options.params) {
+    transport.setLLMRequestParams(span, options.params);
+  }
+  return new LLMCallHandle(span, transport, options.prompt);
+}
+
+/**
+ * Record a completed LLM call as a span with its original start time and duration
+ */
+export function recordLLMCallSpan(transport: Transport | null, call: LLMCallRecord): void {
+  if (!transport) {
+    return;
+  }
+
+  const startTime = resolveStartTime(call);
+  const handle = startLLMCallSpan(transport, call, startTime);
+  if (call.context) {
+    handle.otelSpan.setAttributes(traceContextAttributes(call.context));
+  }
+
+  transport.endLLMSpan(handle.otelSpan, {
+    inputTokens: call.inputTokens,
+    outputTokens: call.outputTokens,
+    totalTokens: call.totalTokens,
+    cachedInputTokens: call.cachedInputTokens,
+    reasoningTokens: call.reasoningTokens,
+    prompt: call.prompt,
+    response: call.response,
+    toolCalls: call.toolCalls,
+    streamed: call.streamed,
+    finishReasons: call.finishReasons,
+    responseId: call.responseId,
+    responseModel: call.responseModel,
+    systemFingerprint: call.systemFingerprint,
+    statusCode: call.statusCode,
+    timeToFirstTokenMs: call.timeToFirstTokenMs,
+    error: toError(call.error),
+    endTime:
+      call.durationMs !== undefined ? new Date(startTime.getTime() + call.durationMs) : undefined,
+  });
+}
+
+/**
+ * Start time: the explicit timestamp, or `durationMs` before now
+ *
+ * Returned as a Date because OpenTelemetry reads numbers earlier than the process start as
+ * performance-clock offsets.
+ */
+function resolveStartTime(call: LLMCallRecord): Date {
+  if (call.timestamp !== undefined) {
+    const time = new Date(call.timestamp);
+    if (!Number.isNaN(time.getTime())) {
+      return time;
+    }
+  }
+  return new Date(Date.now() - (call.durationMs ?? 0));
+}
+
+function toError(error: string | Error | undefined): Error | undefined {
+  if (error === undefined) {
+    return undefined;
+  }
+  return error instanceof Error ? error : new Error(error);
+}
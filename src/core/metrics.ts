@@ -0,0 +1,105 @@
+/**
+ * Aggregate LLM usage metrics recorded alongside spans
+ */
+
+import type { Attributes, Counter, Histogram, Meter } from '@opentelemetry/api';
+
+import { LLM_ATTRIBUTES } from './attributes';
+
+/** Metric instrument names */
+export const METRIC_NAMES = {
+  REQUESTS: 'agentbasis.llm.requests',
+  ERRORS: 'agentbasis.llm.errors',
+  INPUT_TOKENS: 'agentbasis.llm.tokens.input',
+  OUTPUT_TOKENS: 'agentbasis.llm.tokens.output',
+  COST: 'agentbasis.llm.cost',
+  DURATION: 'agentbasis.llm.duration',
+  TIME_TO_FIRST_TOKEN: 'agentbasis.llm.time_to_first_token',
+} as const;
+
+/** How often metrics are exported; `flush()` exports immediately */
+export const METRIC_EXPORT_INTERVAL_MS = 60000;
+
+/**
+ * A finished LLM call as seen by the metrics
+ */
+export interface LLMCallMeasurement {
+  provider: string;
+  model: string;
+  agentId: string;
+  failed: boolean;
+  durationMs: number;
+  inputTokens?: number | undefined;
+  outputTokens?: number | undefined;
+  timeToFirstTokenMs?: number | undefined;
+  costUsd?: number | undefined;
+}
+
+/**
+ * Counters and histograms for LLM calls, keyed by provider, model, agent ID and status
+ */
+export class LLMMetrics {
+  private readonly requests: Counter;
+  private readonly errors: Counter;
+  private readonly inputTokens: Counter;
+  private readonly outputTokens: Counter;
+  private readonly cost: Counter;
+  private readonly duration: Histogram;
+  private readonly timeToFirstToken: Histogram;
+
+  constructor(meter: Meter) {
+    this.requests = meter.createCounter(METRIC_NAMES.REQUESTS, {
+      description: 'LLM calls',
+    });
+    this.errors = meter.createCounter(METRIC_NAMES.ERRORS, {
+      description: 'Failed LLM calls',
+    });
+    this.inputTokens = meter.createCounter(METRIC_NAMES.INPUT_TOKENS, {
+      description: 'Input tokens sent to LLMs',
+      unit: '{token}',
+    });
+    this.outputTokens = meter.createCounter(METRIC_NAMES.OUTPUT_TOKENS, {
+      description: 'Output tokens received from LLMs',
+      unit: '{token}',
+    });
+    this.cost = meter.createCounter(METRIC_NAMES.COST, {
+      description: 'Estimated LLM spend',
+      unit: 'USD',
+    });
+    this.duration = meter.createHistogram(METRIC_NAMES.DURATION, {
+      description: 'LLM call duration',
+      unit: 'ms',
+    });
+    this.timeToFirstToken = meter.createHistogram(METRIC_NAMES.TIME_TO_FIRST_TOKEN, {
+      description: 'Time to the first streamed token',
+      unit: 'ms',
+    });
+  }
+
+  record(call: LLMCallMeasurement): void {
+    const attributes: Attributes = {
+      [LLM_ATTRIBUTES.PROVIDER]: call.provider,
+      [LLM_ATTRIBUTES.MODEL]: call.model,
+      [LLM_ATTRIBUTES.AGENT_ID]: call.agentId,
+      [LLM_ATTRIBUTES.STATUS]: call.failed ? 'error' : 'ok',
+    };
+
+    this.requests.add(1, attributes);
+    if (call.failed) {
+      this.errors.add(1, attributes);
+    }
+    if (call.inputTokens !== undefined) {
+      this.inputTokens.add(call.inputTokens, attributes);
+    }
+    if (call.outputTokens !== undefined) {
+      this.outputTokens.add(call.outputTokens, attributes);
+    }
+    if (call.costUsd !== undefined) {
+      this.cost.add(call.costUsd, attributes);
+    }
+    this.duration.record(call.durationMs, attributes);
+    if (call.timeToFirstTokenMs !== undefined) {
+      this.timeToFirstToken.record(call.timeToFirstTokenMs, attributes);
+    }
+  }
+}
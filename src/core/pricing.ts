@@ -0,0 +1,289 @@
+/**
+ * Model pricing and LLM cost estimation
+ */
+
+import type { ModelPrice, ModelPriceConfig } from '../types';
+import { validateModelPrice } from './config';
+
+/**
+ * Token counts used to estimate the cost of a call
+ *
+ * Cached tokens are part of `inputTokens` and reasoning tokens part of `outputTokens`; they are
+ * billed at their own rates and the rest at the base rates. OpenAI reports usage this way; the
+ * Anthropic and Gemini integrations convert theirs, which count cache reads and thinking tokens
+ * separately.
+ */
+export interface TokenUsage {
+  inputTokens?: number | undefined;
+  outputTokens?: number | undefined;
+  cachedInputTokens?: number | undefined;
+  reasoningTokens?: number | undefined;
+}
+
+/**
+ * Built-in list prices in USD per million tokens, with the date each price took effect
+ *
+ * Prices are for standard (non-batch) usage and the lowest context tier.
+ */
+export const DEFAULT_PRICING: readonly ModelPriceConfig[] = [
+  // OpenAI
+  { model: 'gpt-5', input: 1.25, cachedInput: 0.125, output: 10, effectiveFrom: '2025-08-07' },
+  { model: 'gpt-5-mini', input: 0.25, cachedInput: 0.025, output: 2, effectiveFrom: '2025-08-07' },
+  {
+    model: 'gpt-5-nano',
+    input: 0.05,
+    cachedInput: 0.005,
+    output: 0.4,
+    effectiveFrom: '2025-08-07',
+  },
+  { model: 'gpt-4.1', input: 2, cachedInput: 0.5, output: 8, effectiveFrom: '2025-04-14' },
+  { model: 'gpt-4.1-mini', input: 0.4, cachedInput: 0.1, output: 1.6, effectiveFrom: '2025-04-14' },
+  {
+    model: 'gpt-4.1-nano',
+    input: 0.1,
+    cachedInput: 0.025,
+    output: 0.4,
+    effectiveFrom: '2025-04-14',
+  },
+  { model: 'gpt-4o', input: 5, output: 15, effectiveFrom: '2024-05-13' },
+  { model: 'gpt-4o', input: 2.5, cachedInput: 1.25, output: 10, effectiveFrom: '2024-10-02' },
+  {
+    model: 'gpt-4o-mini',
+    input: 0.15,
+    cachedInput: 0.075,
+    output: 0.6,
+    effectiveFrom: '2024-07-18',
+  },
+  { model: 'gpt-4-turbo', input: 10, output: 30, effectiveFrom: '2024-04-09' },
+  { model: 'gpt-4', input: 30, output: 60, effectiveFrom: '2023-03-14' },
+  { model: 'gpt-3.5-turbo', input: 0.5, output: 1.5, effectiveFrom: '2024-01-25' },
+  { model: 'o1', input: 15, cachedInput: 7.5, output: 60, effectiveFrom: '2024-12-17' },
+  { model: 'o1-mini', input: 3, cachedInput: 1.5, output: 12, effectiveFrom: '2024-09-12' },
+  { model: 'o1-mini', input: 1.1, cachedInput: 0.55, output: 4.4, effectiveFrom: '2025-01-31' },
+  { model: 'o3', input: 10, cachedInput: 2.5, output: 40, effectiveFrom: '2025-04-16' },
+  { model: 'o3', input: 2, cachedInput: 0.5, output: 8, effectiveFrom: '2025-06-10' },
+  { model: 'o3-mini', input: 1.1, cachedInput: 0.55, output: 4.4, effectiveFrom: '2025-01-31' },
+  { model: 'o4-mini', input: 1.1, cachedInput: 0.275, output: 4.4, effectiveFrom: '2025-04-16' },
+  { model: 'text-embedding-3-small', input: 0.02, output: 0, effectiveFrom: '2024-01-25' },
+  { model: 'text-embedding-3-large', input: 0.13, output: 0, effectiveFrom: '2024-01-25' },
+  { model: 'text-embedding-ada-002', input: 0.1, output: 0, effectiveFrom: '2022-12-15' },
+
+  // Anthropic
+  { model: 'claude-opus-4-5', input: 5, cachedInput: 0.5, output: 25, effectiveFrom: '2025-11-24' },
+  {
+    model: 'claude-opus-4-1',
+    input: 15,
+    cachedInput: 1.5,
+    output: 75,
+    effectiveFrom: '2025-08-05',
+  },
+  { model: 'claude-opus-4', input: 15, cachedInput: 1.5, output: 75, effectiveFrom: '2025-05-22' },
+  {
+    model: 'claude-sonnet-4-5',
+    input: 3,
+    cachedInput: 0.3,
+    output: 15,
+    effectiveFrom: '2025-09-29',
+  },
+  { model: 'claude-sonnet-4', input: 3, cachedInput: 0.3, output: 15, effectiveFrom: '2025-05-22' },
+  { model: 'claude-haiku-4-5', input: 1, cachedInput: 0.1, output: 5, effectiveFrom: '2025-10-15' },
+  {
+    model: 'claude-3-7-sonnet',
+    input: 3,
+    cachedInput: 0.3,
+    output: 15,
+    effectiveFrom: '2025-02-24',
+  },
+  {
+    model: 'claude-3-5-sonnet',
+    input: 3,
+    cachedInput: 0.3,
+    output: 15,
+    effectiveFrom: '2024-06-20',
+  },
+  {
+    model: 'claude-3-5-haiku',
+    input: 0.8,
+    cachedInput: 0.08,
+    output: 4,
+    effectiveFrom: '2024-11-04',
+  },
+  { model: 'claude-3-opus', input: 15, cachedInput: 1.5, output: 75, effectiveFrom: '2024-03-04' },
+  { model: 'claude-3-sonnet', input: 3, cachedInput: 0.3, output: 15, effectiveFrom: '2024-03-04' },
+  {
+    model: 'claude-3-haiku',
+    input: 0.25,
+    cachedInput: 0.03,
+    output: 1.25,
+    effectiveFrom: '2024-03-13',
+  },
+
+  // Gemini
+  {
+    model: 'gemini-2.5-pro',
+    input: 1.25,
+    cachedInput: 0.31,
+    output: 10,
+    effectiveFrom: '2025-06-17',
+  },
+  {
+    model: 'gemini-2.5-flash',
+    input: 0.15,
+    output: 0.6,
+    reasoning: 3.5,
+    effectiveFrom: '2025-04-17',
+  },
+  {
+    model: 'gemini-2.5-flash',
+    input: 0.3,
+    cachedInput: 0.075,
+    output: 2.5,
+    effectiveFrom: '2025-06-17',
+  },
+  {
+    model: 'gemini-2.5-flash-lite',
+    input: 0.1,
+    cachedInput: 0.025,
+    output: 0.4,
+    effectiveFrom: '2025-07-22',
+  },
+  {
+    model: 'gemini-2.0-flash',
+    input: 0.1,
+    cachedInput: 0.025,
+    output: 0.4,
+    effectiveFrom: '2025-02-05',
+  },
+  { model: 'gemini-2.0-flash-lite', input: 0.075, output: 0.3, effectiveFrom: '2025-02-25' },
+  { model: 'gemini-1.5-pro', input: 3.5, output: 10.5, effectiveFrom: '2024-05-14' },
+  {
+    model: 'gemini-1.5-pro',
+    input: 1.25,
+    cachedInput: 0.3125,
+    output: 5,
+    effectiveFrom: '2024-10-01',
+  },
+  {
+    model: 'gemini-1.5-flash',
+    input: 0.075,
+    cachedInput: 0.01875,
+    output: 0.3,
+    effectiveFrom: '2024-08-12',
+  },
+];
+
+/** Prices registered at runtime with `registerModelPrice()` */
+const registeredPrices: ModelPriceConfig[] = [];
+
+/**
+ * Register a custom model price for fine-tunes, self-hosted models or negotiated rates
+ *
+ * Registered prices apply to every SDK instance and take precedence over the built-in table;
+ * prices passed to `init({ pricing })` take precedence over both.
+ */
+export function registerModelPrice(price: ModelPriceConfig): void {
+  validateModelPrice(price);
+  registeredPrices.push(price);
+}
+
+/**
+ * Remove all prices registered with `registerModelPrice()`
+ */
+export function clearRegisteredModelPrices(): void {
+  registeredPrices.length = 0;
+}
+
+/**
+ * Resolves model prices from config, registered and built-in entries
+ */
+export class PricingTable {
+  private readonly configured: readonly ModelPriceConfig[];
+
+  constructor(configured: readonly ModelPriceConfig[] = []) {
+    this.configured = configured;
+  }
+
+  /**
+   * Find the price for a model at a point in time
+   *
+   * Sources are checked in order (config, registered, built-in). Within a source, an exact model
+   * name beats the longest prefix ending at a `-`, `:` or `@` boundary, provider-specific
+   * entries beat generic ones, and the most recent entry in effect at `at` wins.
+   */
+  lookup(provider: string, model: string, at: number = Date.now()): ModelPrice | undefined {
+    const name = normalizeModelName(model);
+    for (const source of [this.configured, registeredPrices, DEFAULT_PRICING]) {
+      const price = findPrice(source, provider, name, at);
+      if (price) {
+        return price;
+      }
+    }
+    return undefined;
+  }
+}
+
+/**
+ * Estimate the cost of a call in USD, or undefined when no token counts are known
+ */
+export function estimateCost(price: ModelPrice, usage: TokenUsage): number | undefined {
+  if (usage.inputTokens === undefined && usage.outputTokens === undefined) {
+    return undefined;
+  }
+
+  const cached = Math.min(usage.cachedInputTokens ?? 0, usage.inputTokens ?? 0);
+  const reasoning = Math.min(usage.reasoningTokens ?? 0, usage.outputTokens ?? 0);
+  const cost =
+    ((usage.inputTokens ?? 0) - cached) * price.input +
+    cached * (price.cachedInput ?? price.input) +
+    ((usage.outputTokens ?? 0) - reasoning) * price.output +
+    reasoning * (price.reasoning ?? price.output);
+
+  return cost / 1_000_000;
+}
+
+function findPrice(
+  entries: readonly ModelPriceConfig[],
+  provider: string,
+  model: string,
+  at: number
+): ModelPrice | undefined {
+  let best: { entry: ModelPriceConfig; score: number; effectiveFrom: number } | undefined;
+
+  for (const entry of entries) {
+    if (entry.provider !== undefined && entry.provider !== provider) {
+      continue;
+    }
+    const entryModel = normalizeModelName(entry.model);
+    const exact = entryModel === model;
+    if (
+      !exact &&
+      !(model.startsWith(entryModel) && /^[-:@]/.test(model.slice(entryModel.length)))
+    ) {
+      continue;
+    }
+    const effectiveFrom = entry.effectiveFrom !== undefined ? Date.parse(entry.effectiveFrom) : 0;
+    if (effectiveFrom > at) {
+      continue;
+    }
+
+    // Rank by match quality first, then provider specificity, then recency
+    const score =
+      (exact ? 1_000_000 : entryModel.length * 2) + (entry.provider !== undefined ? 1 : 0);
+    if (
+      !best ||
+      score > best.score ||
+      (score === best.score && effectiveFrom >= best.effectiveFrom)
+    ) {
+      best = { entry, score, effectiveFrom };
+    }
+  }
+
+  return best?.entry;
+}
+
+/**
+ * Lowercase a model name and drop resource prefixes such as Gemini's `models/`
+ */
+function normalizeModelName(model: string): string {
+  return model.toLowerCase().replace(/^models\//, '');
+}
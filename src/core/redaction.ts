@@ -0,0 +1,155 @@
+/**
+ * PII and secret redaction for captured content
+ */
+
+import type { BuiltinDetector, RedactionConfig, Redactor } from '../types';
+import { debug } from '../utils/logger';
+
+/** Result of running the redaction pipeline over a string */
+export interface RedactionResult {
+  /** Redacted text */
+  text: string;
+
+  /** Names of the rules that changed the text */
+  rules: string[];
+}
+
+/**
+ * Function form of a configured redaction pipeline
+ *
+ * Returns `undefined` when a custom redactor throws; the text must then be dropped rather than
+ * exported unredacted.
+ */
+export type RedactFn = (text: string) => RedactionResult | undefined;
+
+/** All built-in detectors */
+export const BUILTIN_DETECTORS: readonly BuiltinDetector[] = [
+  'email',
+  'phone',
+  'credit_card',
+  'api_key',
+  'bearer_token',
+];
+
+/**
+ * Built-in detectors enabled when `detectors` is not set
+ *
+ * `credit_card` is opt-in: long digit runs such as numeric IDs can pass the Luhn check.
+ */
+export const DEFAULT_DETECTORS: readonly BuiltinDetector[] = BUILTIN_DETECTORS.filter(
+  (name) => name !== 'credit_card'
+);
+
+/**
+ * Luhn checksum, used to avoid redacting arbitrary digit runs as card numbers
+ */
+function passesLuhn(candidate: string): boolean {
+  const digits = candidate.replace(/\D/g, '');
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) {
+        digit -= 9;
+      }
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+function placeholder(rule: string): string {
+  return `[REDACTED:${rule}]`;
+}
+
+/**
+ * Built-in detector implementations, applied in declaration order
+ */
+const DETECTORS: Record<BuiltinDetector, (text: string) => string> = {
+  // Bearer tokens first so the token isn't partially matched as an API key
+  bearer_token: (text) =>
+    text.replace(/\b(Bearer\s+)[A-Za-z0-9\-._~+/]{8,}=*/gi, `$1${placeholder('bearer_token')}`),
+  api_key: (text) =>
+    text.replace(
+      /\b(?:sk-(?:ant-|proj-)?[A-Za-z0-9_-]{20,}|AKIA[0-9A-Z]{16}|AIza[0-9A-Za-z_-]{35}|gh[pousr]_[A-Za-z0-9]{36,}|xox[abprs]-[A-Za-z0-9-]{10,})\b/g,
+      placeholder('api_key')
+    ),
+  email: (text) =>
+    text.replace(/[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g, placeholder('email')),
+  credit_card: (text) =>
+    text.replace(/\b(?:\d[ -]?){12,18}\d\b/g, (match) =>
+      passesLuhn(match) ? placeholder('credit_card') : match
+    ),
+  // Require separators or a country code so plain numbers (timestamps, token counts) survive
+  phone: (text) =>
+    text.replace(
+      /(?<![\w+])(?:\+\d{1,3}(?:[ .-]?\d{2,4}){2,4}|(?:\(\d{3}\) ?|\d{3}[ .-])\d{3}[ .-]\d{4})(?!\w)/g,
+      placeholder('phone')
+    ),
+};
+
+/**
+ * Run a single custom redactor
+ */
+function applyRedactor(redactor: Redactor, text: string): string {
+  if ('redact' in redactor) {
+    return redactor.redact(text);
+  }
+
+  const pattern = redactor.pattern.global
+    ? redactor.pattern
+    : new RegExp(redactor.pattern.source, `${redactor.pattern.flags}g`);
+  return text.replace(pattern, redactor.replacement ?? placeholder(redactor.name));
+}
+
+/**
+ * Build the redaction pipeline for a config
+ *
+ * Built-in detectors run first (`DEFAULT_DETECTORS` unless `detectors` is set), followed by
+ * custom redactors in order. `false` disables redaction entirely. A custom redactor that throws
+ * fails the whole pipeline for that text, logged once per redactor at debug level.
+ */
+export function createRedactor(config: RedactionConfig | false | undefined): RedactFn {
+  if (config === false) {
+    return (text) => ({ text, rules: [] });
+  }
+
+  const detectors = (Object.keys(DETECTORS) as BuiltinDetector[]).filter((name) =>
+    (config?.detectors ?? DEFAULT_DETECTORS).includes(name)
+  );
+  const custom = config?.custom ?? [];
+  const failed = new Set<string>();
+
+  return (input) => {
+    let text = input;
+    const rules: string[] = [];
+
+    for (const name of detectors) {
+      const next = DETECTORS[name](text);
+      if (next !== text) {
+        rules.push(name);
+        text = next;
+      }
+    }
+
+    for (const redactor of custom) {
+      let next: string;
+      try {
+        next = applyRedactor(redactor, text);
+      } catch (err) {
+        if (!failed.has(redactor.name)) {
+          failed.add(redactor.name);
+          debug(`Redactor "${redactor.name}" failed; dropping the content it was applied to`, err);
+        }
+        return undefined;
+      }
+      if (next !== text) {
+        rules.push(redactor.name);
+        text = next;
+      }
+    }
+
+    return { text, rules };
+  };
+}
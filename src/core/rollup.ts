@@ -0,0 +1,103 @@
+/**
+ * Roll-up of LLM usage onto ancestor spans
+ */
+
+import { SpanStatusCode, trace, type Attributes, type Context } from '@opentelemetry/api';
+import type { ReadableSpan, Span, SpanProcessor } from '@opentelemetry/sdk-trace-base';
+
+import { LLM_ATTRIBUTES, ROLLUP_ATTRIBUTES } from './attributes';
+import { readLLMAttribute } from './conventions';
+
+interface UsageTotals {
+  llmCalls: number;
+  llmErrors: number;
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  costUsd: number;
+}
+
+/**
+ * Span processor that adds each finished LLM call's tokens, cost and outcome to every open
+ * ancestor span in the process
+ *
+ * Totals are updated as LLM spans end, so an ancestor carries them by the time it ends. Calls
+ * that finish after an ancestor has ended (e.g. a stream consumed outside its scope) are not
+ * counted on that ancestor.
+ */
+export class UsageRollupSpanProcessor implements SpanProcessor {
+  private readonly parents = new WeakMap<Span, Span>();
+  private readonly totals = new WeakMap<Span, UsageTotals>();
+
+  onStart(span: Span, parentContext: Context): void {
+    const parent = trace.getSpan(parentContext);
+    // Only spans from this SDK's provider can be updated; remote parents are skipped
+    if (parent && 'attributes' in parent) {
+      this.parents.set(span, parent as Span);
+    }
+  }
+
+  onEnd(span: ReadableSpan): void {
+    const attributes = span.attributes;
+    if (readLLMAttribute(attributes, LLM_ATTRIBUTES.PROVIDER) === undefined) {
+      return;
+    }
+
+    const usage: UsageTotals = {
+      llmCalls: 1,
+      llmErrors: span.status.code === SpanStatusCode.ERROR ? 1 : 0,
+      inputTokens: numberAttribute(attributes, LLM_ATTRIBUTES.INPUT_TOKENS),
+      outputTokens: numberAttribute(attributes, LLM_ATTRIBUTES.OUTPUT_TOKENS),
+      totalTokens: numberAttribute(attributes, LLM_ATTRIBUTES.TOTAL_TOKENS),
+      costUsd: numberAttribute(attributes, LLM_ATTRIBUTES.COST_USD),
+    };
+
+    let ancestor = this.parents.get(span as Span);
+    while (ancestor) {
+      if (!ancestor.ended) {
+        this.add(ancestor, usage);
+      }
+      ancestor = this.parents.get(ancestor);
+    }
+  }
+
+  forceFlush(): Promise<void> {
+    return Promise.resolve();
+  }
+
+  shutdown(): Promise<void> {
+    return Promise.resolve();
+  }
+
+  private add(span: Span, usage: UsageTotals): void {
+    const totals = this.totals.get(span) ?? {
+      llmCalls: 0,
+      llmErrors: 0,
+      inputTokens: 0,
+      outputTokens: 0,
+      totalTokens: 0,
+      costUsd: 0,
+    };
+    totals.llmCalls += usage.llmCalls;
+    totals.llmErrors += usage.llmErrors;
+    totals.inputTokens += usage.inputTokens;
+    totals.outputTokens += usage.outputTokens;
+    totals.totalTokens += usage.totalTokens;
+    totals.costUsd += usage.costUsd;
+    this.totals.set(span, totals);
+
+    span.setAttributes({
+      [ROLLUP_ATTRIBUTES.LLM_CALLS]: totals.llmCalls,
+      [ROLLUP_ATTRIBUTES.LLM_ERRORS]: totals.llmErrors,
+      [ROLLUP_ATTRIBUTES.INPUT_TOKENS]: totals.inputTokens,
+      [ROLLUP_ATTRIBUTES.OUTPUT_TOKENS]: totals.outputTokens,
+      [ROLLUP_ATTRIBUTES.TOTAL_TOKENS]: totals.totalTokens,
+      [ROLLUP_ATTRIBUTES.COST_USD]: totals.costUsd,
+    });
+  }
+}
+
+function numberAttribute(attributes: Attributes, key: string): number {
+  const value = readLLMAttribute(attributes, key);
+  return typeof value === 'number' ? value : 0;
+}
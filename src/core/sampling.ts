@@ -0,0 +1,257 @@
+/**
+ * Head and tail sampling for AgentBasis SDK
+ */
+
+import {
+  SpanStatusCode,
+  trace,
+  TraceFlags,
+  type Attributes,
+  type Context,
+} from '@opentelemetry/api';
+import {
+  SamplingDecision,
+  TraceIdRatioBasedSampler,
+  type ReadableSpan,
+  type Sampler,
+  type SamplingResult,
+  type Span,
+  type SpanProcessor,
+} from '@opentelemetry/sdk-trace-base';
+
+import type { SamplingConfig, SamplingRule } from '../types';
+import { LLM_ATTRIBUTES } from './attributes';
+import { readLLMAttribute } from './conventions';
+
+/** Upper bound on traces buffered by the tail sampler before the oldest is decided early */
+const MAX_BUFFERED_TRACES = 10000;
+
+/** Ratio samplers are stateless, so share one per distinct ratio */
+const ratioSamplers = new Map<number, TraceIdRatioBasedSampler>();
+
+/**
+ * Find the first rule matching a span
+ */
+function findRule(
+  rules: SamplingRule[] | undefined,
+  spanName: string,
+  attributes: Attributes
+): SamplingRule | undefined {
+  const provider = readLLMAttribute(attributes, LLM_ATTRIBUTES.PROVIDER);
+
+  return rules?.find((rule) => {
+    if (rule.provider !== undefined && rule.provider !== provider) {
+      return false;
+    }
+    if (rule.spanName instanceof RegExp) {
+      return rule.spanName.test(spanName);
+    }
+    return rule.spanName === undefined || rule.spanName === spanName;
+  });
+}
+
+/**
+ * Deterministic keep/drop decision for a trace ID at the given ratio
+ */
+function keepTrace(traceId: string, ratio: number): boolean {
+  let sampler = ratioSamplers.get(ratio);
+  if (!sampler) {
+    sampler = new TraceIdRatioBasedSampler(ratio);
+    ratioSamplers.set(ratio, sampler);
+  }
+  return sampler.shouldSample(undefined, traceId).decision === SamplingDecision.RECORD_AND_SAMPLED;
+}
+
+/**
+ * Head sampling decision for a span
+ *
+ * Root spans use the matching rule's ratio, falling back to `sampling.ratio`. Child spans of a
+ * dropped parent are dropped; child spans of a kept parent are only dropped by a matching rule.
+ *
+ * @param parentSampled - Parent's decision, or undefined for root spans
+ */
+export function shouldKeepSpan(
+  sampling: SamplingConfig,
+  traceId: string,
+  spanName: string,
+  attributes: Attributes,
+  parentSampled: boolean | undefined
+): boolean {
+  if (parentSampled === false) {
+    return false;
+  }
+
+  const rule = findRule(sampling.rules, spanName, attributes);
+  if (rule) {
+    return keepTrace(traceId, rule.ratio);
+  }
+
+  return parentSampled ?? keepTrace(traceId, sampling.ratio ?? 1);
+}
+
+/**
+ * OpenTelemetry sampler applying ratio and rule-based head sampling
+ */
+export class HeadSampler implements Sampler {
+  private readonly sampling: SamplingConfig;
+
+  constructor(sampling: SamplingConfig) {
+    this.sampling = sampling;
+  }
+
+  shouldSample(
+    context: Context,
+    traceId: string,
+    spanName: string,
+    _spanKind: unknown,
+    attributes: Attributes
+  ): SamplingResult {
+    const parent = trace.getSpanContext(context);
+    const parentSampled = parent ? (parent.traceFlags & TraceFlags.SAMPLED) !== 0 : undefined;
+
+    return {
+      decision: shouldKeepSpan(this.sampling, traceId, spanName, attributes, parentSampled)
+        ? SamplingDecision.RECORD_AND_SAMPLED
+        : SamplingDecision.NOT_RECORD,
+    };
+  }
+
+  toString(): string {
+    return 'AgentBasisHeadSampler';
+  }
+}
+
+/** Spans of one trace waiting for a tail sampling decision */
+interface BufferedTrace {
+  openSpans: number;
+  ended: ReadableSpan[];
+}
+
+/**
+ * Span processor that applies head sampling after the fact and keeps whole traces that
+ * contain errors or slow LLM calls
+ *
+ * All spans are recorded; each trace is buffered until its last local span ends and is then
+ * forwarded to the downstream processors, either in full (interesting traces) or filtered by
+ * the head sampling decision of each span.
+ */
+export class TailSamplingProcessor implements SpanProcessor {
+  private readonly traces = new Map<string, BufferedTrace>();
+  private readonly headDecisions = new Map<string, boolean>();
+  private readonly sampling: SamplingConfig;
+  private readonly downstream: SpanProcessor[];
+
+  constructor(sampling: SamplingConfig, downstream: SpanProcessor[]) {
+    this.sampling = sampling;
+    this.downstream = downstream;
+  }
+
+  onStart(span: Span, parentContext: Context): void {
+    const { traceId, spanId } = span.spanContext();
+    const parent = trace.getSpanContext(parentContext);
+    const parentSampled =
+      parent && parent.traceId === traceId ? this.headDecisions.get(parent.spanId) : undefined;
+
+    this.headDecisions.set(
+      spanId,
+      shouldKeepSpan(this.sampling, traceId, span.name, span.attributes, parentSampled)
+    );
+
+    let buffered = this.traces.get(traceId);
+    if (!buffered) {
+      buffered = { openSpans: 0, ended: [] };
+      this.traces.set(traceId, buffered);
+      this.evictIfFull();
+    }
+    buffered.openSpans++;
+
+    for (const processor of this.downstream) {
+      processor.onStart(span, parentContext);
+    }
+  }
+
+  onEnd(span: ReadableSpan): void {
+    const { traceId } = span.spanContext();
+    const buffered = this.traces.get(traceId);
+
+    if (!buffered) {
+      // Trace was already decided early; decide this straggler on its own
+      this.forward([span], this.isInteresting(span));
+      return;
+    }
+
+    buffered.ended.push(span);
+    buffered.openSpans--;
+    if (buffered.openSpans <= 0) {
+      this.decide(traceId);
+    }
+  }
+
+  async forceFlush(): Promise<void> {
+    for (const traceId of [...this.traces.keys()]) {
+      this.decide(traceId);
+    }
+    await Promise.all(this.downstream.map((processor) => processor.forceFlush()));
+  }
+
+  async shutdown(): Promise<void> {
+    for (const traceId of [...this.traces.keys()]) {
+      this.decide(traceId);
+    }
+    await Promise.all(this.downstream.map((processor) => processor.shutdown()));
+  }
+
+  private decide(traceId: string): void {
+    const buffered = this.traces.get(traceId);
+    if (!buffered) {
+      return;
+    }
+    this.traces.delete(traceId);
+    this.forward(
+      buffered.ended,
+      buffered.ended.some((span) => this.isInteresting(span))
+    );
+  }
+
+  private forward(spans: ReadableSpan[], keepAll: boolean): void {
+    for (const span of spans) {
+      const { spanId } = span.spanContext();
+      const keep = keepAll || this.headDecisions.get(spanId) === true;
+      this.headDecisions.delete(spanId);
+
+      if (keep) {
+        for (const processor of this.downstream) {
+          processor.onEnd(span);
+        }
+      }
+    }
+  }
+
+  private isInteresting(span: ReadableSpan): boolean {
+    const tail = this.sampling.tail ?? {};
+
+    if ((tail.keepErrors ?? true) && span.status.code === SpanStatusCode.ERROR) {
+      return true;
+    }
+
+    if (
+      tail.slowLlmCallMs !== undefined &&
+      readLLMAttribute(span.attributes, LLM_ATTRIBUTES.PROVIDER) !== undefined
+    ) {
+      const durationMs = span.duration[0] * 1000 + span.duration[1] / 1e6;
+      return durationMs > tail.slowLlmCallMs;
+    }
+
+    return false;
+  }
+
+  private evictIfFull(): void {
+    if (this.traces.size <= MAX_BUFFERED_TRACES) {
+      return;
+    }
+    const oldest = this.traces.keys().next();
+    if (!oldest.done) {
+      this.decide(oldest.value);
+    }
+  }
+}
@@ -0,0 +1,187 @@
+/**
+ * Manual span API
+ */
+
+import {
+  context,
+  INVALID_SPAN_CONTEXT,
+  SpanKind,
+  SpanStatusCode,
+  trace,
+  type AttributeValue,
+  type Attributes,
+  type Span,
+} from '@opentelemetry/api';
+
+import type { AgentSpanKind, SpanOptions } from '../types';
+import { SPAN_ATTRIBUTES } from './attributes';
+import type { Transport } from './transport';
+
+/**
+ * Runs a callback inside a new active span of a fixed kind
+ */
+export interface SpanRunner {
+  <T>(name: string, fn: (span: AgentSpan) => T): T;
+  <T>(name: string, options: Omit<SpanOptions, 'kind'>, fn: (span: AgentSpan) => T): T;
+}
+
+/** OpenTelemetry span kind for each agent span kind; everything else is INTERNAL */
+const OTEL_SPAN_KINDS: Partial<Record<AgentSpanKind, SpanKind>> = {
+  llm: SpanKind.CLIENT,
+  retrieval: SpanKind.CLIENT,
+};
+
+/**
+ * Handle for a manually created span
+ *
+ * Wraps an OpenTelemetry span; captured input and output go through the SDK's content mode,
+ * redaction and size limits. Calling `end()` more than once has no effect.
+ */
+export class AgentSpan {
+  /** Underlying OpenTelemetry span */
+  readonly otelSpan: Span;
+
+  private readonly transport: Transport | null;
+  private failed = false;
+  private ended = false;
+
+  constructor(otelSpan: Span, transport: Transport | null) {
+    this.otelSpan = otelSpan;
+    this.transport = transport;
+  }
+
+  setAttribute(key: string, value: AttributeValue): this {
+    this.otelSpan.setAttribute(key, value);
+    return this;
+  }
+
+  setAttributes(attributes: Attributes): this {
+    this.otelSpan.setAttributes(attributes);
+    return this;
+  }
+
+  /**
+   * Record the span's input as `agentbasis.input`
+   */
+  setInput(value: unknown): this {
+    this.transport?.setContentAttribute(this.otelSpan, SPAN_ATTRIBUTES.INPUT, value, 'input');
+    return this;
+  }
+
+  /**
+   * Record the span's output as `agentbasis.output`
+   */
+  setOutput(value: unknown): this {
+    this.transport?.setContentAttribute(this.otelSpan, SPAN_ATTRIBUTES.OUTPUT, value, 'output');
+    return this;
+  }
+
+  /**
+   * Mark the span as failed and record the exception
+   */
+  recordError(err: unknown): this {
+    const error = err instanceof Error ? err : new Error(String(err));
+    this.failed = true;
+    this.otelSpan.setStatus({
+      code: SpanStatusCode.ERROR,
+      message: error.message,
+    });
+    this.otelSpan.recordException(error);
+    return this;
+  }
+
+  /**
+   * Run a function with this span active, so spans started inside it become its children
+   */
+  run<T>(fn: () => T): T {
+    return context.with(trace.setSpan(context.active(), this.otelSpan), fn);
+  }
+
+  /**
+   * End the span, optionally recording an output or error first
+   */
+  end(options: { output?: unknown; error?: unknown } = {}): void {
+    if (this.ended) {
+      return;
+    }
+    this.ended = true;
+
+    if (options.output !== undefined) {
+      this.setOutput(options.output);
+    }
+    if (options.error !== undefined) {
+      this.recordError(options.error);
+    }
+    if (!this.failed) {
+      this.otelSpan.setStatus({ code: SpanStatusCode.OK });
+    }
+    this.otelSpan.end();
+  }
+}
+
+/**
+ * Start a span under the active context
+ *
+ * Without a transport (SDK not initialized) a non-recording span is returned so callers don't
+ * need to branch.
+ */
+export function startAgentSpan(
+  transport: Transport | null,
+  name: string,
+  options: SpanOptions = {}
+): AgentSpan {
+  if (!transport) {
+    return new AgentSpan(trace.wrapSpanContext(INVALID_SPAN_CONTEXT), null);
+  }
+
+  const otelSpan = transport.startSpan(name, undefined, {
+    kind: options.kind ? OTEL_SPAN_KINDS[options.kind] : undefined,
+    attributes: {
+      ...options.attributes,
+      ...(options.kind ? { [SPAN_ATTRIBUTES.KIND]: options.kind } : {}),
+    },
+  });
+  const span = new AgentSpan(otelSpan, transport);
+  if (options.input !== undefined) {
+    span.setInput(options.input);
+  }
+  return span;
+}
+
+/**
+ * Run a function inside a new active span that ends when the function returns or settles
+ *
+ * Errors (thrown or rejected) are recorded on the span and rethrown.
+ */
+export function runInSpan<T>(
+  transport: Transport | null,
+  name: string,
+  options: SpanOptions,
+  fn: (span: AgentSpan) => T
+): T {
+  const span = startAgentSpan(transport, name, options);
+
+  let result: T;
+  try {
+    result = span.run(() => fn(span));
+  } catch (err) {
+    span.end({ error: err });
+    throw err;
+  }
+
+  if (result instanceof Promise) {
+    return result.then(
+      (value: unknown) => {
+        span.end();
+        return value;
+      },
+      (err: unknown) => {
+        span.end({ error: err });
+        throw err;
+      }
+    ) as T;
+  }
+
+  span.end();
+  return result;
+}
@@ -0,0 +1,168 @@
+/**
+ * Persistent disk spool for export batches that could not be delivered
+ */
+
+import { randomUUID } from 'crypto';
+import { mkdir, readdir, readFile, stat, unlink, writeFile } from 'fs/promises';
+import { join } from 'path';
+
+import type { SpoolConfig } from '../types';
+import { debug, error as logError, warn } from '../utils/logger';
+
+/** Default size cap for the spool directory (50 MB) */
+export const DEFAULT_SPOOL_MAX_BYTES = 50 * 1024 * 1024;
+
+/** Extension used for spooled batch files */
+const SPOOL_FILE_EXTENSION = '.otlp.json';
+
+/**
+ * Stores serialized export batches on disk and replays them oldest-first
+ *
+ * Each batch is one file. When the directory grows beyond `maxBytes`, the oldest batches are
+ * evicted first so the most recent data survives.
+ */
+export class DiskSpool {
+  private readonly directory: string;
+  private readonly maxBytes: number;
+  private replaying: Promise<number> | null = null;
+  private sequence = 0;
+
+  constructor(config: SpoolConfig) {
+    this.directory = config.directory;
+    this.maxBytes = config.maxBytes ?? DEFAULT_SPOOL_MAX_BYTES;
+  }
+
+  /**
+   * Persist a batch so it can be replayed later
+   */
+  async write(body: string): Promise<void> {
+    const size = Buffer.byteLength(body, 'utf8');
+    if (size > this.maxBytes) {
+      warn(`Dropping ${size} byte batch: larger than spool limit of ${this.maxBytes} bytes`);
+      return;
+    }
+
+    try {
+      await mkdir(this.directory, { recursive: true });
+      await writeFile(join(this.directory, this.nextFileName()), body, 'utf8');
+      await this.enforceLimit();
+      debug(`Spooled ${size} byte batch to ${this.directory}`);
+    } catch (err) {
+      logError(`Failed to write batch to spool directory ${this.directory}`, err);
+    }
+  }
+
+  /**
+   * Send every spooled batch, oldest first, deleting each one once it is delivered
+   *
+   * Stops at the first retryable failure so the remaining batches are kept for the next attempt.
+   * A batch whose failure `isRetryable` rejects can never be delivered, so it is deleted and
+   * replay moves on. Concurrent calls share the same replay.
+   *
+   * @returns Number of batches delivered
+   */
+  replay(
+    send: (body: string) => Promise<void>,
+    isRetryable: (error: unknown) => boolean = (): boolean => true
+  ): Promise<number> {
+    if (!this.replaying) {
+      this.replaying = this.replayFiles(send, isRetryable).finally(() => {
+        this.replaying = null;
+      });
+    }
+    return this.replaying;
+  }
+
+  private async replayFiles(
+    send: (body: string) => Promise<void>,
+    isRetryable: (error: unknown) => boolean
+  ): Promise<number> {
+    const files = await this.listFiles();
+    let delivered = 0;
+
+    for (const file of files) {
+      const path = join(this.directory, file.name);
+      let body: string;
+      try {
+        body = await readFile(path, 'utf8');
+      } catch {
+        // Evicted or replayed by another process in the meantime
+        continue;
+      }
+
+      try {
+        await send(body);
+      } catch (err) {
+        if (isRetryable(err)) {
+          debug(`Spool replay stopped after ${delivered} batch(es); will retry on next flush`);
+          break;
+        }
+        warn(
+          `Dropping spooled batch ${file.name}: it was rejected and can't succeed on replay`,
+          err
+        );
+        await unlink(path).catch(() => undefined);
+        continue;
+      }
+
+      await unlink(path).catch(() => undefined);
+      delivered++;
+    }
+
+    if (delivered > 0) {
+      debug(`Replayed ${delivered} spooled batch(es) from ${this.directory}`);
+    }
+    return delivered;
+  }
+
+  private async enforceLimit(): Promise<void> {
+    const files = await this.listFiles();
+    let total = files.reduce((sum, file) => sum + file.size, 0);
+
+    for (const file of files) {
+      if (total <= this.maxBytes) {
+        break;
+      }
+      await unlink(join(this.directory, file.name)).catch(() => undefined);
+      total -= file.size;
+      warn(`Spool limit reached, evicted oldest batch ${file.name}`);
+    }
+  }
+
+  /**
+   * List spooled batch files, oldest first
+   */
+  private async listFiles(): Promise<Array<{ name: string; size: number }>> {
+    let names: string[];
+    try {
+      names = await readdir(this.directory);
+    } catch {
+      return [];
+    }
+
+    const files = await Promise.all(
+      names
+        .filter((name) => name.endsWith(SPOOL_FILE_EXTENSION))
+        .sort()
+        .map(async (name) => {
+          try {
+            const stats = await stat(join(this.directory, name));
+            return { name, size: stats.size };
+          } catch {
+            return null;
+          }
+        })
+    );
+
+    return files.filter((file): file is { name: string; size: number } => file !== null);
+  }
+
+  /**
+   * Build a file name that sorts by creation order
+   */
+  private nextFileName(): string {
+    const timestamp = Date.now().toString().padStart(15, '0');
+    const sequence = (this.sequence++).toString().padStart(6, '0');
+    return `${timestamp}-${sequence}-${randomUUID()}${SPOOL_FILE_EXTENSION}`;
+  }
+}
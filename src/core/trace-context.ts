@@ -0,0 +1,81 @@
+/**
+ * Storage for AgentBasis trace context on OpenTelemetry contexts
+ */
+
+import type { Attributes, Context } from '@opentelemetry/api';
+import type { ReadableSpan, Span, SpanProcessor } from '@opentelemetry/sdk-trace-base';
+
+import type { TraceContext } from '../types';
+import { CONTEXT_ATTRIBUTES } from './attributes';
+
+/** Context key for storing AgentBasis trace context */
+const AGENTBASIS_CONTEXT_KEY = Symbol.for('agentbasis.context');
+
+/**
+ * Create a new context with AgentBasis metadata
+ */
+export function setTraceContext(parentContext: Context, metadata: TraceContext): Context {
+  return parentContext.setValue(AGENTBASIS_CONTEXT_KEY, metadata);
+}
+
+/**
+ * Get AgentBasis metadata from context
+ */
+export function getTraceContext(ctx: Context): TraceContext | undefined {
+  return ctx.getValue(AGENTBASIS_CONTEXT_KEY) as TraceContext | undefined;
+}
+
+/**
+ * Span attributes describing a trace context: user, session, trace ID and scalar metadata
+ */
+export function traceContextAttributes(metadata: TraceContext): Attributes {
+  const attributes: Attributes = {};
+
+  if (metadata.userId) {
+    attributes[CONTEXT_ATTRIBUTES.USER_ID] = metadata.userId;
+  }
+  if (metadata.sessionId) {
+    attributes[CONTEXT_ATTRIBUTES.SESSION_ID] = metadata.sessionId;
+  }
+  if (metadata.traceId) {
+    attributes[CONTEXT_ATTRIBUTES.TRACE_ID] = metadata.traceId;
+  }
+  for (const [key, value] of Object.entries(metadata.metadata ?? {})) {
+    if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+      attributes[`${CONTEXT_ATTRIBUTES.METADATA_PREFIX}${key}`] = value;
+    }
+  }
+
+  return attributes;
+}
+
+/**
+ * Span processor that stamps the active `withContext` trace context onto every span started
+ * inside the scope, including spans from LLM and framework integrations
+ *
+ * Attributes set explicitly on the span at creation take precedence.
+ */
+export class TraceContextSpanProcessor implements SpanProcessor {
+  onStart(span: Span, parentContext: Context): void {
+    const metadata = getTraceContext(parentContext);
+    if (!metadata) {
+      return;
+    }
+
+    for (const [key, value] of Object.entries(traceContextAttributes(metadata))) {
+      if (value !== undefined && span.attributes[key] === undefined) {
+        span.setAttribute(key, value);
+      }
+    }
+  }
+
+  onEnd(_span: ReadableSpan): void {}
+
+  forceFlush(): Promise<void> {
+    return Promise.resolve();
+  }
+
+  shutdown(): Promise<void> {
+    return Promise.resolve();
+  }
+}
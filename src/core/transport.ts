@@ -7,32 +7,143 @@ import {
   context,
   SpanKind,
   SpanStatusCode,
+  TraceFlags,
+  type Attributes,
+  type TimeInput,
   type Tracer,
   type Span,
   type Context,
 } from '@opentelemetry/api';
-import { BasicTracerProvider, BatchSpanProcessor } from '@opentelemetry/sdk-trace-base';
-import { OTLPTraceExporter } from '@opentelemetry/exporter-trace-otlp-http';
+import {
+  BasicTracerProvider,
+  BatchSpanProcessor,
+  InMemorySpanExporter,
+  type BufferConfig,
+  type ReadableSpan,
+  type SpanExporter,
+} from '@opentelemetry/sdk-trace-base';
+import type { Logger } from '@opentelemetry/api-logs';
+import { hrTimeToMilliseconds, timeInputToHrTime } from '@opentelemetry/core';
+import {
+  BatchLogRecordProcessor,
+  InMemoryLogRecordExporter,
+  LoggerProvider,
+  type LogRecordExporter,
+} from '@opentelemetry/sdk-logs';
+import {
+  InMemoryMetricExporter,
+  MeterProvider,
+  PeriodicExportingMetricReader,
+  type PushMetricExporter,
+} from '@opentelemetry/sdk-metrics';
 import { Resource } from '@opentelemetry/resources';
 import { ATTR_SERVICE_NAME, ATTR_SERVICE_VERSION } from '@opentelemetry/semantic-conventions';
 
-import type { AgentBasisConfig } from '../types';
-import { AGENTBASIS_API_URL } from '../utils/env';
-import { debug, error as logError } from '../utils/logger';
+import type { AgentBasisConfig, ContentMode, LLMRequestParams, LLMToolCall } from '../types';
+import { LLM_ATTRIBUTES, TOOL_CALL_ATTRIBUTES } from './attributes';
+import { replaceBinaryContent } from './binary';
+import {
+  resolveCapture,
+  serializeContent,
+  summarizeContent,
+  TRUNCATED_MODE_MAX_BYTES,
+  type ContentKind,
+} from './content';
+import { ensureContextManager } from './context-manager';
+import {
+  applyConventions,
+  emitsAgentBasis,
+  emitsGenAI,
+  genAIOperationName,
+  GENAI_ATTRIBUTES,
+  GENAI_CONTENT_EVENTS,
+} from './conventions';
+import { createExporter, createLogExporter, createMetricExporter } from './exporters';
+import { LLMMetrics, METRIC_EXPORT_INTERVAL_MS } from './metrics';
+import { estimateCost, PricingTable } from './pricing';
+import { createRedactor, type RedactFn } from './redaction';
+import { UsageRollupSpanProcessor } from './rollup';
+import { HeadSampler, TailSamplingProcessor } from './sampling';
+import { getTraceContext, TraceContextSpanProcessor } from './trace-context';
+import { DEFAULT_CONTENT_MAX_BYTES, truncateUtf8 } from './truncation';
+import { debug, error as logError, warn } from '../utils/logger';
 import { SDK_VERSION } from '../version';
 
-/** Custom semantic conventions for LLM tracing */
-export const LLM_ATTRIBUTES = {
-  PROVIDER: 'llm.provider',
-  MODEL: 'llm.model',
-  INPUT_TOKENS: 'llm.usage.input_tokens',
-  OUTPUT_TOKENS: 'llm.usage.output_tokens',
-  TOTAL_TOKENS: 'llm.usage.total_tokens',
-  PROMPT: 'llm.prompt',
-  RESPONSE: 'llm.response',
-  STREAMED: 'llm.streamed',
-  AGENT_ID: 'agentbasis.agent_id',
-} as const;
+export { LLM_ATTRIBUTES };
+
+/** Default time to wait for flush and shutdown */
+export const DEFAULT_FLUSH_TIMEOUT_MS = 30000;
+
+/**
+ * Batch processor that counts spans which have ended but not been exported yet
+ */
+class TrackedBatchSpanProcessor extends BatchSpanProcessor {
+  private pending = 0;
+
+  constructor(exporter: SpanExporter, config: BufferConfig) {
+    const tracked: SpanExporter = {
+      export: (spans, resultCallback) => {
+        exporter.export(spans, (result) => {
+          this.pending = Math.max(0, this.pending - spans.length);
+          resultCallback(result);
+        });
+      },
+      shutdown: () => exporter.shutdown(),
+      forceFlush: () => exporter.forceFlush?.() ?? Promise.resolve(),
+    };
+    super(tracked, config);
+  }
+
+  override onEnd(span: ReadableSpan): void {
+    if ((span.spanContext().traceFlags & TraceFlags.SAMPLED) !== 0) {
+      this.pending++;
+    }
+    super.onEnd(span);
+  }
+
+  override async forceFlush(): Promise<void> {
+    await super.forceFlush();
+    // Everything queued has been exported or dropped; resync in case spans were dropped
+    this.pending = 0;
+  }
+
+  getPendingCount(): number {
+    return this.pending;
+  }
+}
+
+/**
+ * Race a promise against a deadline
+ *
+ * @returns true if the promise settled before the deadline
+ */
+async function settlesWithin(promise: Promise<unknown>, timeoutMillis: number): Promise<boolean> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const deadline = new Promise<false>((resolve) => {
+    timer = setTimeout(() => resolve(false), timeoutMillis);
+    timer.unref?.();
+  });
+
+  try {
+    return await Promise.race([promise.then(() => true), deadline]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Convert an OpenTelemetry time input to epoch milliseconds
+ */
+function toMilliseconds(time: TimeInput): number {
+  return hrTimeToMilliseconds(timeInputToHrTime(time));
+}
+
+/**
+ * Drop attributes whose value is undefined
+ */
+function definedAttributes(attributes: Attributes): Attributes {
+  return Object.fromEntries(Object.entries(attributes).filter(([, value]) => value !== undefined));
+}
 
 /**
  * Transport class for sending telemetry via OpenTelemetry
@@ -41,19 +152,30 @@ export class Transport {
   private config: AgentBasisConfig;
   private provider: BasicTracerProvider;
   private tracer: Tracer;
-  private exporter: OTLPTraceExporter;
+  private exporters: SpanExporter[];
+  private processors: TrackedBatchSpanProcessor[];
+  private loggerProvider: LoggerProvider;
+  private logger: Logger;
+  private logExporters: LogRecordExporter[];
+  private meterProvider: MeterProvider;
+  private metricExporters: PushMetricExporter[];
+  private llmMetrics: LLMMetrics;
+  private pricing: PricingTable;
+  private llmCalls = new WeakMap<
+    Span,
+    { provider: string; model: string; startTime: number; firstTokenTime?: number }
+  >();
+  private redact: RedactFn;
+  private redactedRules = new WeakMap<Span, Set<string>>();
+  private contentModes = new WeakMap<Span, ContentMode>();
 
   constructor(config: AgentBasisConfig) {
     this.config = config;
+    this.redact = createRedactor(config.redaction);
+    this.pricing = new PricingTable(config.pricing);
 
-    // Create OTLP exporter pointing to AgentBasis API
-    this.exporter = new OTLPTraceExporter({
-      url: `${AGENTBASIS_API_URL}/v1/traces`,
-      headers: {
-        'Authorization': `Bearer ${config.apiKey}`,
-        'X-Agent-ID': config.agentId,
-      },
-    });
+    // Create configured exporters (OTLP to the AgentBasis endpoint by default)
+    this.exporters = config.exporters.map((exporterConfig) => createExporter(exporterConfig, config));
 
     // Create resource with service info
     const resource = new Resource({
@@ -62,27 +184,82 @@ export class Transport {
       [LLM_ATTRIBUTES.AGENT_ID]: config.agentId,
     });
 
-    // Create tracer provider with batch processor
+    // Create tracer provider; with tail sampling every span is recorded and filtered at the end
+    const sampling = config.sampling;
     this.provider = new BasicTracerProvider({
       resource,
+      ...(sampling && !sampling.tail ? { sampler: new HeadSampler(sampling) } : {}),
     });
 
-    // Add batch processor for efficient sending
-    this.provider.addSpanProcessor(
-      new BatchSpanProcessor(this.exporter, {
-        maxQueueSize: config.batchSize * 10,
-        maxExportBatchSize: config.batchSize,
-        scheduledDelayMillis: config.flushIntervalMs,
-      })
+    // Stamp withContext metadata onto every span started in a scope
+    this.provider.addSpanProcessor(new TraceContextSpanProcessor());
+
+    // Add descendant LLM tokens, cost and call counts to ancestor spans as calls finish
+    this.provider.addSpanProcessor(new UsageRollupSpanProcessor());
+
+    // Add a batch processor per exporter so one slow or failing exporter doesn't block the others
+    this.processors = this.exporters.map(
+      (exporter) =>
+        new TrackedBatchSpanProcessor(exporter, {
+          maxQueueSize: config.batchSize * 10,
+          maxExportBatchSize: config.batchSize,
+          scheduledDelayMillis: config.flushIntervalMs,
+        })
     );
+    if (sampling?.tail) {
+      this.provider.addSpanProcessor(new TailSamplingProcessor(sampling, this.processors));
+    } else {
+      for (const processor of this.processors) {
+        this.provider.addSpanProcessor(processor);
+      }
+    }
 
-    // Register the provider
+    // Register the provider, and a context manager so spans nest across awaits
     this.provider.register();
+    ensureContextManager();
 
-    // Get tracer instance
-    this.tracer = trace.getTracer('agentbasis', SDK_VERSION);
+    // Get tracer from our provider directly; the global provider can only be registered once,
+    // so re-initializing after shutdown would otherwise keep using the old provider
+    this.tracer = this.provider.getTracer('agentbasis', SDK_VERSION);
 
-    debug('Transport initialized with OTLP exporter');
+    // Log records (emitted when no span is active) go to the logs counterpart of each exporter
+    this.logExporters = config.exporters.flatMap((exporterConfig) => {
+      const exporter = createLogExporter(exporterConfig, config);
+      return exporter ? [exporter] : [];
+    });
+    this.loggerProvider = new LoggerProvider({ resource });
+    for (const exporter of this.logExporters) {
+      this.loggerProvider.addLogRecordProcessor(
+        new BatchLogRecordProcessor(exporter, {
+          maxQueueSize: config.batchSize * 10,
+          maxExportBatchSize: config.batchSize,
+          scheduledDelayMillis: config.flushIntervalMs,
+        })
+      );
+    }
+    this.logger = this.loggerProvider.getLogger('agentbasis', SDK_VERSION);
+
+    // Aggregate LLM metrics, exported periodically and on flush
+    this.metricExporters = config.exporters.flatMap((exporterConfig) => {
+      const exporter = createMetricExporter(exporterConfig, config);
+      return exporter ? [exporter] : [];
+    });
+    this.meterProvider = new MeterProvider({
+      resource,
+      readers: this.metricExporters.map(
+        (exporter) =>
+          new PeriodicExportingMetricReader({
+            exporter,
+            exportIntervalMillis: METRIC_EXPORT_INTERVAL_MS,
+          })
+      ),
+    });
+    this.llmMetrics = new LLMMetrics(this.meterProvider.getMeter('agentbasis', SDK_VERSION));
+
+    debug('Transport initialized', {
+      endpoint: config.endpoint,
+      exporters: this.exporters.map((exporter) => exporter.constructor.name),
+    });
   }
 
   /**
@@ -92,6 +269,41 @@ export class Transport {
     return this.tracer;
   }
 
+  /**
+   * Get the logger for emitting log records outside of spans
+   */
+  getLogger(): Logger {
+    return this.logger;
+  }
+
+  /**
+   * Get the first in-memory log record exporter, if a memory exporter is configured
+   */
+  getMemoryLogExporter(): InMemoryLogRecordExporter | undefined {
+    return this.logExporters.find(
+      (exporter): exporter is InMemoryLogRecordExporter =>
+        exporter instanceof InMemoryLogRecordExporter
+    );
+  }
+
+  /**
+   * Get the first in-memory metric exporter, if a memory exporter is configured
+   */
+  getMemoryMetricExporter(): InMemoryMetricExporter | undefined {
+    return this.metricExporters.find(
+      (exporter): exporter is InMemoryMetricExporter => exporter instanceof InMemoryMetricExporter
+    );
+  }
+
+  /**
+   * Get the first in-memory exporter, if one is configured
+   */
+  getMemoryExporter(): InMemorySpanExporter | undefined {
+    return this.exporters.find(
+      (exporter): exporter is InMemorySpanExporter => exporter instanceof InMemorySpanExporter
+    );
+  }
+
   /**
    * Start a new span for an LLM call
    */
@@ -99,7 +311,8 @@ export class Transport {
     name: string,
     provider: string,
     model: string,
-    parentContext?: Context
+    parentContext?: Context,
+    startTime?: TimeInput
   ): Span {
     const ctx = parentContext ?? context.active();
 
@@ -107,20 +320,64 @@ export class Transport {
       name,
       {
         kind: SpanKind.CLIENT,
+        ...(startTime !== undefined ? { startTime } : {}),
         attributes: {
-          [LLM_ATTRIBUTES.PROVIDER]: provider,
-          [LLM_ATTRIBUTES.MODEL]: model,
-          [LLM_ATTRIBUTES.AGENT_ID]: this.config.agentId,
+          ...this.toConventions({
+            [LLM_ATTRIBUTES.PROVIDER]: provider,
+            [LLM_ATTRIBUTES.MODEL]: model,
+            [LLM_ATTRIBUTES.AGENT_ID]: this.config.agentId,
+          }),
+          ...(emitsGenAI(this.config.semanticConventions)
+            ? { [GENAI_ATTRIBUTES.OPERATION_NAME]: genAIOperationName(name) }
+            : {}),
         },
       },
       ctx
     );
+    this.recordScopeContentMode(span, ctx);
+    this.llmCalls.set(span, {
+      provider,
+      model,
+      startTime: startTime !== undefined ? toMilliseconds(startTime) : Date.now(),
+    });
 
     return span;
   }
 
   /**
-   * End an LLM span with results
+   * Record the sampling and tool parameters an LLM call was made with
+   */
+  setLLMRequestParams(span: Span, params: LLMRequestParams): void {
+    span.setAttributes(
+      this.toConventions(
+        definedAttributes({
+          [LLM_ATTRIBUTES.REQUEST_TEMPERATURE]: params.temperature,
+          [LLM_ATTRIBUTES.REQUEST_TOP_P]: params.topP,
+          [LLM_ATTRIBUTES.REQUEST_MAX_TOKENS]: params.maxTokens,
+          [LLM_ATTRIBUTES.REQUEST_STOP_SEQUENCES]: params.stopSequences,
+          [LLM_ATTRIBUTES.REQUEST_SEED]: params.seed,
+          [LLM_ATTRIBUTES.REQUEST_RESPONSE_FORMAT]: params.responseFormat,
+          [LLM_ATTRIBUTES.REQUEST_TOOL_CHOICE]: params.toolChoice,
+          [LLM_ATTRIBUTES.REQUEST_TOOL_COUNT]: params.toolCount,
+        })
+      )
+    );
+  }
+
+  /**
+   * Note that the first streamed token of an LLM call arrived; later calls are ignored
+   *
+   * `endLLMSpan` derives the time to first token from this unless one is passed explicitly.
+   */
+  markFirstToken(span: Span): void {
+    const call = this.llmCalls.get(span);
+    if (call && call.firstTokenTime === undefined) {
+      call.firstTokenTime = Date.now();
+    }
+  }
+
+  /**
+   * End an LLM span with results and record the call in the LLM metrics
    */
   endLLMSpan(
     span: Span,
@@ -128,33 +385,61 @@ export class Transport {
       inputTokens?: number | undefined;
       outputTokens?: number | undefined;
       totalTokens?: number | undefined;
+      cachedInputTokens?: number | undefined;
+      reasoningTokens?: number | undefined;
       prompt?: unknown;
       response?: unknown;
+      toolCalls?: LLMToolCall[] | undefined;
       streamed?: boolean | undefined;
+      finishReasons?: string[] | undefined;
+      responseId?: string | undefined;
+      responseModel?: string | undefined;
+      systemFingerprint?: string | undefined;
+      statusCode?: number | undefined;
+      timeToFirstTokenMs?: number | undefined;
       error?: Error | undefined;
+      endTime?: TimeInput | undefined;
     }
   ): void {
-    if (options.inputTokens !== undefined) {
-      span.setAttribute(LLM_ATTRIBUTES.INPUT_TOKENS, options.inputTokens);
+    span.setAttributes(
+      this.toConventions(
+        definedAttributes({
+          [LLM_ATTRIBUTES.INPUT_TOKENS]: options.inputTokens,
+          [LLM_ATTRIBUTES.OUTPUT_TOKENS]: options.outputTokens,
+          [LLM_ATTRIBUTES.TOTAL_TOKENS]: options.totalTokens,
+          [LLM_ATTRIBUTES.CACHED_INPUT_TOKENS]: options.cachedInputTokens,
+          [LLM_ATTRIBUTES.REASONING_TOKENS]: options.reasoningTokens,
+          [LLM_ATTRIBUTES.STREAMED]: options.streamed,
+          [LLM_ATTRIBUTES.FINISH_REASONS]: options.finishReasons,
+          [LLM_ATTRIBUTES.RESPONSE_ID]: options.responseId,
+          [LLM_ATTRIBUTES.RESPONSE_MODEL]: options.responseModel,
+          [LLM_ATTRIBUTES.SYSTEM_FINGERPRINT]: options.systemFingerprint,
+          [LLM_ATTRIBUTES.STATUS_CODE]: options.statusCode,
+        })
+      )
+    );
+    const call = this.llmCalls.get(span);
+    const price = call && this.pricing.lookup(call.provider, call.model, call.startTime);
+    const costUsd = price && estimateCost(price, options);
+    if (costUsd !== undefined) {
+      span.setAttribute(LLM_ATTRIBUTES.COST_USD, costUsd);
     }
-    if (options.outputTokens !== undefined) {
-      span.setAttribute(LLM_ATTRIBUTES.OUTPUT_TOKENS, options.outputTokens);
+
+    const timeToFirstTokenMs =
+      options.timeToFirstTokenMs ??
+      (call?.firstTokenTime !== undefined ? call.firstTokenTime - call.startTime : undefined);
+    if (timeToFirstTokenMs !== undefined) {
+      span.setAttribute(LLM_ATTRIBUTES.TIME_TO_FIRST_TOKEN_MS, timeToFirstTokenMs);
     }
-    if (options.totalTokens !== undefined) {
-      span.setAttribute(LLM_ATTRIBUTES.TOTAL_TOKENS, options.totalTokens);
+
+    if (options.prompt !== undefined) {
+      this.setLLMContent(span, LLM_ATTRIBUTES.PROMPT, options.prompt, 'input');
     }
-    if (options.streamed !== undefined) {
-      span.setAttribute(LLM_ATTRIBUTES.STREAMED, options.streamed);
+    if (options.response !== undefined) {
+      this.setLLMContent(span, LLM_ATTRIBUTES.RESPONSE, options.response, 'output');
     }
-
-    // Only include content if configured
-    if (this.config.includeContent) {
-      if (options.prompt !== undefined) {
-        span.setAttribute(LLM_ATTRIBUTES.PROMPT, JSON.stringify(options.prompt));
-      }
-      if (options.response !== undefined) {
-        span.setAttribute(LLM_ATTRIBUTES.RESPONSE, JSON.stringify(options.response));
-      }
+    for (const toolCall of options.toolCalls ?? []) {
+      this.addToolCallEvent(span, toolCall, options.endTime);
     }
 
     if (options.error) {
@@ -167,25 +452,220 @@ export class Transport {
       span.setStatus({ code: SpanStatusCode.OK });
     }
 
-    span.end();
+    span.end(options.endTime);
+
+    if (call) {
+      const endTime = options.endTime !== undefined ? toMilliseconds(options.endTime) : Date.now();
+      this.llmMetrics.record({
+        provider: call.provider,
+        model: call.model,
+        agentId: this.config.agentId,
+        failed: options.error !== undefined,
+        durationMs: Math.max(0, endTime - call.startTime),
+        inputTokens: options.inputTokens,
+        outputTokens: options.outputTokens,
+        timeToFirstTokenMs,
+        costUsd,
+      });
+    }
+  }
+
+  /**
+   * Attach captured content to a span according to its content mode
+   *
+   * Depending on the mode the content is omitted, reduced to metadata (counts, roles, lengths)
+   * or attached as text. Binary parts are replaced with placeholders unless
+   * `includeBinaryContent` is set. Text is redacted, truncated to the configured byte limit and
+   * flagged with `<key>.truncated` when cut. Strings are used as-is and other values are
+   * JSON-serialized.
+   */
+  setContentAttribute(span: Span, key: string, rawValue: unknown, kind: ContentKind): void {
+    const attributes = this.captureContent(span, key, rawValue, kind, key);
+    if (attributes) {
+      span.setAttributes(attributes);
+    }
+  }
+
+  /**
+   * Record a requested tool call as an `llm.tool_call` event
+   *
+   * The name, call ID and argument size are always recorded; the arguments themselves only
+   * when the content mode captures outputs.
+   */
+  private addToolCallEvent(span: Span, toolCall: LLMToolCall, time?: TimeInput): void {
+    const args = serializeContent(toolCall.arguments);
+    const attributes: Attributes = definedAttributes({
+      [TOOL_CALL_ATTRIBUTES.NAME]: toolCall.name,
+      [TOOL_CALL_ATTRIBUTES.ID]: toolCall.id,
+      [TOOL_CALL_ATTRIBUTES.ARGUMENTS_SIZE]:
+        args !== undefined ? Buffer.byteLength(args, 'utf8') : undefined,
+    });
+
+    if (args !== undefined && resolveCapture(this.getContentMode(span), 'output') === 'content') {
+      Object.assign(
+        attributes,
+        this.captureContent(
+          span,
+          TOOL_CALL_ATTRIBUTES.ARGUMENTS,
+          args,
+          'output',
+          TOOL_CALL_ATTRIBUTES.ARGUMENTS
+        )
+      );
+    }
+    span.addEvent(TOOL_CALL_ATTRIBUTES.EVENT, attributes, time);
+  }
+
+  /**
+   * Attach an LLM prompt or response as an attribute, a GenAI content event or both, depending
+   * on the configured semantic conventions
+   */
+  private setLLMContent(span: Span, key: string, rawValue: unknown, kind: ContentKind): void {
+    const conventions = this.config.semanticConventions;
+    if (emitsAgentBasis(conventions)) {
+      this.setContentAttribute(span, key, rawValue, kind);
+    }
+
+    const genai = GENAI_CONTENT_EVENTS[key];
+    if (genai && emitsGenAI(conventions)) {
+      // Size limits configured for the AgentBasis attribute also apply to the event
+      const attributes = this.captureContent(span, genai.attribute, rawValue, kind, key);
+      if (attributes) {
+        span.addEvent(genai.event, attributes);
+      }
+    }
+  }
+
+  /**
+   * Build the attributes for captured content, or undefined when the content mode omits it
+   */
+  private captureContent(
+    span: Span,
+    key: string,
+    rawValue: unknown,
+    kind: ContentKind,
+    limitKey: string
+  ): Attributes | undefined {
+    const mode = this.getContentMode(span);
+    const capture = resolveCapture(mode, kind);
+    if (capture === 'omit') {
+      return undefined;
+    }
+
+    const value = replaceBinaryContent(rawValue, this.config.includeBinaryContent);
+    if (capture === 'metadata') {
+      return summarizeContent(key, value);
+    }
+
+    const serialized = serializeContent(value);
+    if (serialized === undefined) {
+      return undefined;
+    }
+
+    // Redact before truncating so a cut can't leave a partial, unredacted secret behind
+    const result = this.redact(serialized);
+    if (result === undefined) {
+      return undefined;
+    }
+    const { text: redacted, rules } = result;
+    const limit = this.getContentLimit(limitKey);
+    const { text, truncated } = truncateUtf8(
+      redacted,
+      mode === 'truncated' ? Math.min(limit, TRUNCATED_MODE_MAX_BYTES) : limit
+    );
+
+    if (rules.length > 0) {
+      // Accumulate across attributes so the span lists every rule that fired
+      const fired = this.redactedRules.get(span) ?? new Set<string>();
+      rules.forEach((rule) => fired.add(rule));
+      this.redactedRules.set(span, fired);
+      span.setAttribute(LLM_ATTRIBUTES.REDACTION_RULES, [...fired].sort());
+    }
+
+    return truncated ? { [key]: text, [`${key}.truncated`]: true } : { [key]: text };
+  }
+
+  /**
+   * Serialize data attached to a log or error event
+   *
+   * Events are recorded explicitly, so the content mode does not apply, but binary parts are
+   * replaced and the text is redacted and truncated like captured content.
+   */
+  formatEventData(key: string, rawValue: unknown): string | undefined {
+    const value = replaceBinaryContent(rawValue, this.config.includeBinaryContent);
+    const serialized = serializeContent(value);
+    if (serialized === undefined) {
+      return undefined;
+    }
+    const redacted = this.redact(serialized);
+    if (redacted === undefined) {
+      return undefined;
+    }
+    return truncateUtf8(redacted.text, this.getContentLimit(key)).text;
+  }
+
+  /**
+   * Apply an integration's content mode to a span
+   *
+   * A mode set by the enclosing `withContext` scope takes precedence.
+   */
+  setContentMode(span: Span, mode: ContentMode | undefined): void {
+    if (mode !== undefined && !this.contentModes.has(span)) {
+      this.contentModes.set(span, mode);
+    }
+  }
+
+  /**
+   * Effective content mode for a span: scope, then integration, then global config
+   */
+  getContentMode(span: Span): ContentMode {
+    return (
+      this.contentModes.get(span) ??
+      getTraceContext(context.active())?.contentMode ??
+      this.config.contentMode
+    );
+  }
+
+  private recordScopeContentMode(span: Span, ctx: Context): void {
+    const mode = getTraceContext(ctx)?.contentMode;
+    if (mode !== undefined) {
+      this.contentModes.set(span, mode);
+    }
+  }
+
+  private toConventions(attributes: Attributes): Attributes {
+    return applyConventions(attributes, this.config.semanticConventions);
+  }
+
+  private getContentLimit(key: string): number {
+    const limits = this.config.contentLimits;
+    return limits.attributes?.[key] ?? limits.maxBytes ?? DEFAULT_CONTENT_MAX_BYTES;
   }
 
   /**
    * Start a custom span
    */
-  startSpan(name: string, parentContext?: Context): Span {
+  startSpan(
+    name: string,
+    parentContext?: Context,
+    options: { kind?: SpanKind | undefined; attributes?: Attributes | undefined } = {}
+  ): Span {
     const ctx = parentContext ?? context.active();
 
-    return this.tracer.startSpan(
+    const span = this.tracer.startSpan(
       name,
       {
-        kind: SpanKind.INTERNAL,
+        kind: options.kind ?? SpanKind.INTERNAL,
         attributes: {
+          ...options.attributes,
           [LLM_ATTRIBUTES.AGENT_ID]: this.config.agentId,
         },
       },
       ctx
     );
+    this.recordScopeContentMode(span, ctx);
+
+    return span;
   }
 
   /**
@@ -214,12 +694,38 @@ export class Transport {
     }
   }
 
+  /**
+   * Number of ended spans not yet exported (highest across exporters)
+   */
+  getPendingSpanCount(): number {
+    return Math.max(0, ...this.processors.map((processor) => processor.getPendingCount()));
+  }
+
   /**
    * Force flush all pending spans
+   *
+   * @returns false if the flush failed or did not finish within `timeoutMillis`
    */
-  async flush(_timeoutMillis?: number): Promise<boolean> {
+  async flush(timeoutMillis = DEFAULT_FLUSH_TIMEOUT_MS): Promise<boolean> {
+    const flushing = (async (): Promise<void> => {
+      await Promise.all([
+        this.provider.forceFlush(),
+        this.loggerProvider.forceFlush(),
+        this.meterProvider.forceFlush(),
+      ]);
+      // Let exporters finish their own work, e.g. replaying spooled batches
+      await Promise.all(this.exporters.map((exporter) => exporter.forceFlush?.()));
+    })();
+
     try {
-      await this.provider.forceFlush();
+      if (!(await settlesWithin(flushing, timeoutMillis))) {
+        warn(
+          `Flush timed out after ${timeoutMillis}ms with ${this.getPendingSpanCount()} span(s) still pending`
+        );
+        // The flush keeps running in the background; surface its failure in debug output only
+        flushing.catch((err: unknown) => debug('Timed-out flush failed', err));
+        return false;
+      }
       debug('Telemetry flushed successfully');
       return true;
     } catch (err) {
@@ -245,13 +751,29 @@ export class Transport {
 
   /**
    * Shutdown the transport
+   *
+   * @returns false if shutdown failed or did not finish within `timeoutMillis`
    */
-  async shutdown(): Promise<void> {
+  async shutdown(timeoutMillis = DEFAULT_FLUSH_TIMEOUT_MS): Promise<boolean> {
+    const shuttingDown = Promise.all([
+      this.provider.shutdown(),
+      this.loggerProvider.shutdown(),
+      this.meterProvider.shutdown(),
+    ]);
+
     try {
-      await this.provider.shutdown();
+      if (!(await settlesWithin(shuttingDown, timeoutMillis))) {
+        warn(
+          `Shutdown timed out after ${timeoutMillis}ms with ${this.getPendingSpanCount()} span(s) still pending`
+        );
+        shuttingDown.catch((err: unknown) => debug('Timed-out shutdown failed', err));
+        return false;
+      }
       debug('Transport shutdown complete');
+      return true;
     } catch (err) {
       logError('Error during transport shutdown', err);
+      return false;
     }
   }
 
@@ -0,0 +1,57 @@
+/**
+ * Byte-limited truncation for captured content
+ */
+
+/** Default byte limit per content attribute (32 KB) */
+export const DEFAULT_CONTENT_MAX_BYTES = 32 * 1024;
+
+/** Result of truncating a string to a byte limit */
+export interface TruncationResult {
+  /** Text within the limit, ending in a truncation marker if it was cut */
+  text: string;
+
+  /** Whether the text was cut */
+  truncated: boolean;
+}
+
+function marker(droppedBytes: number): string {
+  return `…[truncated ${droppedBytes} bytes]`;
+}
+
+/**
+ * Cut a buffer to at most `maxBytes` without splitting a multi-byte UTF-8 sequence
+ */
+function sliceUtf8(buffer: Buffer, maxBytes: number): Buffer {
+  let end = Math.min(maxBytes, buffer.length);
+  // Back off over continuation bytes (10xxxxxx) to the start of the cut character
+  if (end < buffer.length) {
+    while (end > 0 && ((buffer[end] ?? 0) & 0xc0) === 0x80) {
+      end--;
+    }
+  }
+  return buffer.subarray(0, end);
+}
+
+/**
+ * Truncate text to at most `maxBytes` of UTF-8, including the truncation marker
+ *
+ * When the limit is too small to hold the marker the text is cut without one.
+ */
+export function truncateUtf8(text: string, maxBytes: number): TruncationResult {
+  const buffer = Buffer.from(text, 'utf8');
+  if (buffer.length <= maxBytes) {
+    return { text, truncated: false };
+  }
+
+  // The marker length depends on the dropped byte count, so size it for the worst case
+  const reserved = Buffer.byteLength(marker(buffer.length), 'utf8');
+  if (reserved >= maxBytes) {
+    return { text: sliceUtf8(buffer, maxBytes).toString('utf8'), truncated: true };
+  }
+
+  const kept = sliceUtf8(buffer, maxBytes - reserved);
+  return {
+    text: kept.toString('utf8') + marker(buffer.length - kept.length),
+    truncated: true,
+  };
+}
@@ -23,6 +23,7 @@
  */
 
 import { AgentBasis } from '../../core/client';
+import type { ContentMode, InstrumentOptions, LLMRequestParams } from '../../types';
 import { debug, warn } from '../../utils/logger';
 import { SpanStatusCode, type Span } from '@opentelemetry/api';
 
@@ -73,6 +74,54 @@ interface RunInfo {
   metadata?: Record<string, unknown>;
 }
 
+/**
+ * Extract request parameters from a run's `invocation_params`
+ *
+ * Chat models report their provider's parameter names, so both snake_case (OpenAI, Anthropic)
+ * and camelCase (Google) spellings are read.
+ */
+function requestParams(extraParams: Record<string, unknown> | undefined): LLMRequestParams {
+  const params = (extraParams?.invocation_params ?? {}) as Record<string, unknown>;
+  const pick = (...keys: string[]): unknown =>
+    keys.map((key) => params[key]).find((value) => value !== undefined && value !== null);
+  const number = (...keys: string[]): number | undefined => {
+    const value = pick(...keys);
+    return typeof value === 'number' ? value : undefined;
+  };
+  const stop = pick('stop', 'stop_sequences', 'stopSequences');
+  const format = pick('response_format', 'responseFormat') as { type?: string } | undefined;
+  const tools = pick('tools', 'functions');
+
+  return {
+    temperature: number('temperature'),
+    topP: number('top_p', 'topP'),
+    maxTokens: number('max_completion_tokens', 'max_tokens', 'maxTokens', 'maxOutputTokens'),
+    stopSequences: typeof stop === 'string' ? [stop] : Array.isArray(stop) ? stop : undefined,
+    seed: number('seed'),
+    responseFormat: format?.type === 'json_object' ? 'json' : format?.type,
+    toolChoice: toolChoice(pick('tool_choice', 'toolChoice')),
+    toolCount: Array.isArray(tools) ? tools.length : undefined,
+  };
+}
+
+/**
+ * Normalize an OpenAI- or Anthropic-style tool choice to `auto`, `none`, `required` or
+ * `tool:<name>`
+ */
+function toolChoice(choice: unknown): string | undefined {
+  if (typeof choice === 'string') {
+    return choice === 'any' ? 'required' : choice;
+  }
+  const forced = choice as
+    | { type?: string; name?: string; function?: { name?: string } }
+    | undefined;
+  const name = forced?.function?.name ?? forced?.name;
+  if (name !== undefined) {
+    return `tool:${name}`;
+  }
+  return forced?.type === 'any' ? 'required' : forced?.type;
+}
+
 /**
  * AgentBasis callback handler for LangChain.js
  *
@@ -91,8 +140,12 @@ export class AgentBasisCallbackHandler {
   /** Whether the handler is enabled (SDK is initialized) */
   private enabled: boolean;
 
-  constructor() {
+  /** Content mode for spans from this handler (falls back to the global mode) */
+  private contentMode: ContentMode | undefined;
+
+  constructor(options: InstrumentOptions = {}) {
     this.enabled = AgentBasis.isInitialized();
+    this.contentMode = options.contentMode;
     if (!this.enabled) {
       warn('AgentBasis not initialized. Callbacks will be no-ops. Call AgentBasis.init() first.');
     }
@@ -124,6 +177,8 @@ export class AgentBasisCallbackHandler {
       'langchain',
       modelName
     );
+    transport.setContentMode(span, this.contentMode);
+    transport.setLLMRequestParams(span, requestParams(extraParams));
 
     // Add metadata
     span.setAttribute('langchain.run_id', runId);
@@ -224,6 +279,8 @@ export class AgentBasisCallbackHandler {
       'langchain',
       modelName
     );
+    transport.setContentMode(span, this.contentMode);
+    transport.setLLMRequestParams(span, requestParams(extraParams));
 
     span.setAttribute('langchain.run_id', runId);
     if (parentRunId) {
@@ -281,6 +338,7 @@ export class AgentBasisCallbackHandler {
     const chainName = chain.name || chain.id?.join('/') || 'unknown';
 
     const span = transport.startSpan(`langchain.chain.${chainName}`);
+    transport.setContentMode(span, this.contentMode);
 
     span.setAttribute('langchain.chain_name', chainName);
     span.setAttribute('langchain.run_id', runId);
@@ -308,10 +366,8 @@ export class AgentBasisCallbackHandler {
     const span = this.spans.get(runId);
     if (!span) return;
 
-    const config = AgentBasis.getConfig();
-    if (config?.includeContent) {
-      span.setAttribute('langchain.outputs', JSON.stringify(outputs));
-    }
+    const transport = AgentBasis.getInstance().getTransport();
+    transport.setContentAttribute(span, 'langchain.outputs', outputs, 'output');
 
     span.setStatus({ code: SpanStatusCode.OK });
     span.end();
@@ -367,13 +423,11 @@ export class AgentBasisCallbackHandler {
     const transport = AgentBasis.getInstance().getTransport();
 
     const span = transport.startSpan(`langchain.agent.action.${action.tool}`);
+    transport.setContentMode(span, this.contentMode);
     span.setAttribute('langchain.tool', action.tool);
     span.setAttribute('langchain.run_id', runId);
 
-    const config = AgentBasis.getConfig();
-    if (config?.includeContent) {
-      span.setAttribute('langchain.tool_input', JSON.stringify(action.toolInput));
-    }
+    transport.setContentAttribute(span, 'langchain.tool_input', action.toolInput, 'input');
 
     // Store with a unique key for agent actions
     this.spans.set(`${runId}_action_${action.tool}`, span);
@@ -451,13 +505,11 @@ export class AgentBasisCallbackHandler {
     const toolName = tool.name || tool.id?.join('/') || 'unknown';
 
     const span = transport.startSpan(`langchain.tool.${toolName}`);
+    transport.setContentMode(span, this.contentMode);
     span.setAttribute('langchain.tool_name', toolName);
     span.setAttribute('langchain.run_id', runId);
 
-    const config = AgentBasis.getConfig();
-    if (config?.includeContent) {
-      span.setAttribute('langchain.tool_input', input);
-    }
+    transport.setContentAttribute(span, 'langchain.tool_input', input, 'input');
 
     this.spans.set(runId, span);
     this.startTimes.set(runId, Date.now());
@@ -479,10 +531,8 @@ export class AgentBasisCallbackHandler {
     const span = this.spans.get(runId);
     if (!span) return;
 
-    const config = AgentBasis.getConfig();
-    if (config?.includeContent) {
-      span.setAttribute('langchain.tool_output', output);
-    }
+    const transport = AgentBasis.getInstance().getTransport();
+    transport.setContentAttribute(span, 'langchain.tool_output', output, 'output');
 
     span.setStatus({ code: SpanStatusCode.OK });
     span.end();
@@ -541,13 +591,11 @@ export class AgentBasisCallbackHandler {
     const retrieverName = retriever.name || retriever.id?.join('/') || 'unknown';
 
     const span = transport.startSpan(`langchain.retriever.${retrieverName}`);
+    transport.setContentMode(span, this.contentMode);
     span.setAttribute('langchain.retriever_name', retrieverName);
     span.setAttribute('langchain.run_id', runId);
 
-    const config = AgentBasis.getConfig();
-    if (config?.includeContent) {
-      span.setAttribute('langchain.query', query);
-    }
+    transport.setContentAttribute(span, 'langchain.query', query, 'input');
 
     this.spans.set(runId, span);
     this.startTimes.set(runId, Date.now());
@@ -611,6 +659,6 @@ export class AgentBasisCallbackHandler {
 /**
  * Create a new callback handler instance
  */
-export function createCallbackHandler(): AgentBasisCallbackHandler {
-  return new AgentBasisCallbackHandler();
+export function createCallbackHandler(options: InstrumentOptions = {}): AgentBasisCallbackHandler {
+  return new AgentBasisCallbackHandler(options);
 }
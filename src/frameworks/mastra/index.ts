@@ -27,8 +27,8 @@
  */
 
 import { AgentBasis } from '../../core/client';
+import type { InstrumentOptions } from '../../types';
 import { debug, warn } from '../../utils/logger';
-import { SpanStatusCode } from '@opentelemetry/api';
 
 /**
  * Mastra Agent interface (simplified)
@@ -88,6 +88,7 @@ export function createTracedAgent<T extends MastraAgentConfig>(config: T): T & {
  * Wrap an existing Mastra agent with AgentBasis tracing
  *
  * @param agent - The Mastra agent to wrap
+ * @param options - Integration options such as `contentMode`
  * @returns Wrapped agent with tracing
  *
  * @example
@@ -98,13 +99,17 @@ export function createTracedAgent<T extends MastraAgentConfig>(config: T): T & {
  * const tracedAgent = withAgentTracing(agent);
  * ```
  */
-export function withAgentTracing<T extends MastraAgent>(agent: T): T {
+export function withAgentTracing<T extends MastraAgent>(
+  agent: T,
+  options: InstrumentOptions = {}
+): T {
   if (!AgentBasis.isInitialized()) {
     warn('AgentBasis not initialized. Agent will not be traced.');
     return agent;
   }
 
   const agentName = agent.name || 'mastra-agent';
+  const instrumentOptions = options;
   const wrappedAgent = Object.create(agent);
 
   // Wrap execute method
@@ -117,7 +122,7 @@ export function withAgentTracing<T extends MastraAgent>(agent: T): T {
     ): Promise<unknown> {
       return trackAgentExecution(agentName, async () => {
         return originalExecute(input, options);
-      }, { input });
+      }, { input }, instrumentOptions);
     };
   }
 
@@ -131,7 +136,7 @@ export function withAgentTracing<T extends MastraAgent>(agent: T): T {
     ): Promise<unknown> {
       return trackAgentExecution(agentName, async () => {
         return originalRun(input, options);
-      }, { input });
+      }, { input }, instrumentOptions);
     };
   }
 
@@ -145,7 +150,7 @@ export function withAgentTracing<T extends MastraAgent>(agent: T): T {
     ): Promise<unknown> {
       return trackAgentExecution(agentName, async () => {
         return originalInvoke(input, options);
-      }, { input });
+      }, { input }, instrumentOptions);
     };
   }
 
@@ -160,6 +165,7 @@ export function withAgentTracing<T extends MastraAgent>(agent: T): T {
  * @param agentName - Name of the agent
  * @param fn - Async function that runs the agent
  * @param metadata - Optional metadata to include
+ * @param options - Integration options such as `contentMode`
  * @returns Result of the agent execution
  *
  * @example
@@ -172,7 +178,8 @@ export function withAgentTracing<T extends MastraAgent>(agent: T): T {
 export async function trackAgentExecution<T>(
   agentName: string,
   fn: () => Promise<T>,
-  metadata?: { input?: unknown; [key: string]: unknown }
+  metadata?: { input?: unknown; [key: string]: unknown },
+  options: InstrumentOptions = {}
 ): Promise<T> {
   if (!AgentBasis.isInitialized()) {
     return fn();
@@ -181,51 +188,45 @@ export async function trackAgentExecution<T>(
   const transport = AgentBasis.getInstance().getTransport();
   const startTime = Date.now();
 
-  const span = transport.startSpan(`mastra.agent.${agentName}`);
-  span.setAttribute('mastra.agent_name', agentName);
-
-  const config = AgentBasis.getConfig();
-  if (config?.includeContent && metadata?.input) {
-    span.setAttribute('mastra.input', JSON.stringify(metadata.input));
-  }
+  return AgentBasis.span(
+    `mastra.agent.${agentName}`,
+    { kind: 'agent', attributes: { 'mastra.agent_name': agentName } },
+    async (span) => {
+      transport.setContentMode(span.otelSpan, options.contentMode);
+      if (metadata?.input) {
+        transport.setContentAttribute(span.otelSpan, 'mastra.input', metadata.input, 'input');
+      }
 
-  // Add any additional metadata
-  if (metadata) {
-    for (const [key, value] of Object.entries(metadata)) {
-      if (key !== 'input' && (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean')) {
-        span.setAttribute(`mastra.${key}`, value);
+      // Add any additional metadata
+      if (metadata) {
+        for (const [key, value] of Object.entries(metadata)) {
+          if (key !== 'input' && (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean')) {
+            span.setAttribute(`mastra.${key}`, value);
+          }
+        }
       }
-    }
-  }
 
-  try {
-    const result = await fn();
-    const durationMs = Date.now() - startTime;
+      try {
+        const result = await fn();
+        const durationMs = Date.now() - startTime;
 
-    span.setAttribute('mastra.duration_ms', durationMs);
+        span.setAttribute('mastra.duration_ms', durationMs);
 
-    if (config?.includeContent && result !== undefined) {
-      span.setAttribute('mastra.output', JSON.stringify(result));
-    }
+        if (result !== undefined) {
+          transport.setContentAttribute(span.otelSpan, 'mastra.output', result, 'output');
+        }
 
-    span.setStatus({ code: SpanStatusCode.OK });
-    span.end();
-    debug(`Agent ${agentName} completed in ${durationMs}ms`);
+        debug(`Agent ${agentName} completed in ${durationMs}ms`);
+        return result;
+      } catch (err) {
+        const error = err instanceof Error ? err : new Error(String(err));
+        span.setAttribute('mastra.error', error.message);
 
-    return result;
-  } catch (err) {
-    const error = err instanceof Error ? err : new Error(String(err));
-    span.setStatus({
-      code: SpanStatusCode.ERROR,
-      message: error.message,
-    });
-    span.recordException(error);
-    span.setAttribute('mastra.error', error.message);
-    span.end();
-
-    debug(`Agent ${agentName} failed: ${error.message}`);
-    throw err;
-  }
+        debug(`Agent ${agentName} failed: ${error.message}`);
+        throw err;
+      }
+    }
+  );
 }
 
 /**
@@ -234,6 +235,7 @@ export async function trackAgentExecution<T>(
  * @param toolName - Name of the tool
  * @param fn - Async function that runs the tool
  * @param input - Tool input
+ * @param options - Integration options such as `contentMode`
  * @returns Result of the tool execution
  *
  * @example
@@ -246,7 +248,8 @@ export async function trackAgentExecution<T>(
 export async function trackToolExecution<T>(
   toolName: string,
   fn: () => Promise<T>,
-  input?: unknown
+  input?: unknown,
+  options: InstrumentOptions = {}
 ): Promise<T> {
   if (!AgentBasis.isInitialized()) {
     return fn();
@@ -255,37 +258,25 @@ export async function trackToolExecution<T>(
   const transport = AgentBasis.getInstance().getTransport();
   const startTime = Date.now();
 
-  const span = transport.startSpan(`mastra.tool.${toolName}`);
-  span.setAttribute('mastra.tool_name', toolName);
+  return AgentBasis.span(
+    `mastra.tool.${toolName}`,
+    { kind: 'tool', attributes: { 'mastra.tool_name': toolName } },
+    async (span) => {
+      transport.setContentMode(span.otelSpan, options.contentMode);
+      if (input !== undefined) {
+        transport.setContentAttribute(span.otelSpan, 'mastra.tool_input', input, 'input');
+      }
 
-  const config = AgentBasis.getConfig();
-  if (config?.includeContent && input !== undefined) {
-    span.setAttribute('mastra.tool_input', JSON.stringify(input));
-  }
+      const result = await fn();
+      span.setAttribute('mastra.duration_ms', Date.now() - startTime);
 
-  try {
-    const result = await fn();
-    const durationMs = Date.now() - startTime;
-
-    span.setAttribute('mastra.duration_ms', durationMs);
+      if (result !== undefined) {
+        transport.setContentAttribute(span.otelSpan, 'mastra.tool_output', result, 'output');
+      }
 
-    if (config?.includeContent && result !== undefined) {
-      span.setAttribute('mastra.tool_output', JSON.stringify(result));
+      return result;
     }
-
-    span.setStatus({ code: SpanStatusCode.OK });
-    span.end();
-    return result;
-  } catch (err) {
-    const error = err instanceof Error ? err : new Error(String(err));
-    span.setStatus({
-      code: SpanStatusCode.ERROR,
-      message: error.message,
-    });
-    span.recordException(error);
-    span.end();
-    throw err;
-  }
+  );
 }
 
 /**
@@ -310,31 +301,17 @@ export async function trackWorkflowStep<T>(
     return fn();
   }
 
-  const transport = AgentBasis.getInstance().getTransport();
   const startTime = Date.now();
 
-  const span = transport.startSpan(`mastra.workflow.${stepName}`);
-  span.setAttribute('mastra.step_name', stepName);
-
-  try {
-    const result = await fn();
-    const durationMs = Date.now() - startTime;
-
-    span.setAttribute('mastra.duration_ms', durationMs);
-    span.setStatus({ code: SpanStatusCode.OK });
-    span.end();
-
-    return result;
-  } catch (err) {
-    const error = err instanceof Error ? err : new Error(String(err));
-    span.setStatus({
-      code: SpanStatusCode.ERROR,
-      message: error.message,
-    });
-    span.recordException(error);
-    span.end();
-    throw err;
-  }
+  return AgentBasis.span(
+    `mastra.workflow.${stepName}`,
+    { attributes: { 'mastra.step_name': stepName } },
+    async (span) => {
+      const result = await fn();
+      span.setAttribute('mastra.duration_ms', Date.now() - startTime);
+      return result;
+    }
+  );
 }
 
 /**
@@ -342,6 +319,7 @@ export async function trackWorkflowStep<T>(
  *
  * @param name - Tool name
  * @param tool - Tool function
+ * @param options - Integration options such as `contentMode`
  * @returns Wrapped tool with tracing
  *
  * @example
@@ -353,9 +331,10 @@ export async function trackWorkflowStep<T>(
  */
 export function createTracedTool<TInput, TOutput>(
   name: string,
-  tool: (input: TInput) => Promise<TOutput>
+  tool: (input: TInput) => Promise<TOutput>,
+  options: InstrumentOptions = {}
 ): (input: TInput) => Promise<TOutput> {
   return async (input: TInput): Promise<TOutput> => {
-    return trackToolExecution(name, () => tool(input), input);
+    return trackToolExecution(name, () => tool(input), input, options);
   };
 }
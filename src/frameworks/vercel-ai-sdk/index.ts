@@ -30,6 +30,7 @@
  */
 
 import { AgentBasis } from '../../core/client';
+import type { InstrumentOptions, LLMRequestParams } from '../../types';
 import { warn } from '../../utils/logger';
 import { SpanStatusCode } from '@opentelemetry/api';
 
@@ -44,6 +45,22 @@ interface LanguageModel {
   [key: string]: unknown;
 }
 
+/**
+ * Call options passed to `doGenerate`/`doStream` (v4 nests tools under `mode`, v5 does not)
+ */
+interface LanguageModelCallOptions {
+  temperature?: number;
+  topP?: number;
+  maxTokens?: number;
+  maxOutputTokens?: number;
+  stopSequences?: string[];
+  seed?: number;
+  responseFormat?: { type?: string; schema?: unknown };
+  tools?: unknown[];
+  toolChoice?: { type?: string; toolName?: string };
+  mode?: { tools?: unknown[]; toolChoice?: { type?: string; toolName?: string } };
+}
+
 /**
  * Vercel AI SDK result types
  */
@@ -102,6 +119,32 @@ interface StreamResultWithUsage {
   [key: string]: unknown;
 }
 
+/**
+ * Extract the request parameters of a `doGenerate`/`doStream` call
+ */
+function requestParams(callOptions: unknown): LLMRequestParams {
+  const options: LanguageModelCallOptions =
+    typeof callOptions === 'object' && callOptions !== null ? callOptions : {};
+  const format = options.responseFormat;
+  const tools = options.tools ?? options.mode?.tools;
+  const choice = options.toolChoice ?? options.mode?.toolChoice;
+
+  return {
+    temperature: options.temperature,
+    topP: options.topP,
+    maxTokens: options.maxOutputTokens ?? options.maxTokens,
+    stopSequences: options.stopSequences,
+    seed: options.seed,
+    responseFormat:
+      format?.type === 'json' && format.schema !== undefined ? 'json_schema' : format?.type,
+    toolChoice:
+      choice?.type === 'tool' && choice.toolName !== undefined
+        ? `tool:${choice.toolName}`
+        : choice?.type,
+    toolCount: Array.isArray(tools) ? tools.length : undefined,
+  };
+}
+
 /**
  * Type guard for usage
  */
@@ -131,6 +174,7 @@ function hasStreamUsage(obj: unknown): obj is { usage: Promise<TokenUsage> } {
  * Wrap a Vercel AI SDK language model with AgentBasis tracing
  *
  * @param model - The language model to wrap
+ * @param options - Integration options such as `contentMode`
  * @returns Wrapped model with tracing
  *
  * @example
@@ -141,7 +185,10 @@ function hasStreamUsage(obj: unknown): obj is { usage: Promise<TokenUsage> } {
  * const trackedModel = wrapLanguageModel(openai('gpt-4'));
  * ```
  */
-export function wrapLanguageModel<T extends LanguageModel>(model: T): T {
+export function wrapLanguageModel<T extends LanguageModel>(
+  model: T,
+  options: InstrumentOptions = {}
+): T {
   if (!AgentBasis.isInitialized()) {
     warn('AgentBasis not initialized. Model will not be traced.');
     return model;
@@ -165,6 +212,8 @@ export function wrapLanguageModel<T extends LanguageModel>(model: T): T {
         provider,
         modelId
       );
+      transport.setContentMode(span, options.contentMode);
+      transport.setLLMRequestParams(span, requestParams(args[0]));
 
       try {
         const result = await originalDoGenerate(...args);
@@ -209,6 +258,8 @@ export function wrapLanguageModel<T extends LanguageModel>(model: T): T {
         provider,
         modelId
       );
+      transport.setContentMode(span, options.contentMode);
+      transport.setLLMRequestParams(span, requestParams(args[0]));
 
       try {
         const result = await originalDoStream(...args);
@@ -293,9 +344,8 @@ export async function trackAICall<T>(
         span.setAttribute('ai.total_tokens', usage.totalTokens || 0);
       }
       
-      const config = AgentBasis.getConfig();
-      if (config?.includeContent && 'text' in result && typeof (result as { text: unknown }).text === 'string') {
-        span.setAttribute('ai.response_text', (result as { text: string }).text);
+      if ('text' in result && typeof (result as { text: unknown }).text === 'string') {
+        transport.setContentAttribute(span, 'ai.response_text', (result as { text: string }).text, 'output');
       }
     }
 
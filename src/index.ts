@@ -35,7 +35,25 @@
  */
 
 // Core exports
-export { AgentBasis, init, flush, shutdown, isInitialized } from './core/client';
+export {
+  AgentBasis,
+  init,
+  flush,
+  shutdown,
+  isInitialized,
+  span,
+  startSpan,
+  agentSpan,
+  toolSpan,
+  retrievalSpan,
+  llmSpan,
+  guardrailSpan,
+  recordLLMCall,
+  startLLMCall,
+  log,
+  captureError,
+  registerModelPrice,
+} from './core/client';
 export {
   withContext,
   trace,
@@ -44,17 +62,51 @@ export {
   addSpanAttributes,
   recordError,
 } from './core/context';
+export { traced, tracedClass } from './core/decorators';
+export type { TracedMethodDecorator, TracedClassDecorator } from './core/decorators';
+export { AgentSpan } from './core/spans';
+export type { SpanRunner } from './core/spans';
+export { LLMCallHandle } from './core/llm-calls';
+export { GENAI_ATTRIBUTES, GENAI_EVENTS } from './core/conventions';
+export { FileSpanExporter, InMemorySpanExporter, serializeSpan } from './core/exporters';
+export type { SerializedSpan } from './core/exporters';
 
 // Type exports
 export type {
   // Config types
   AgentBasisConfig,
   InitConfig,
+  ExporterConfig,
+  SpoolConfig,
+  SamplingConfig,
+  SamplingRule,
+  TailSamplingConfig,
+  RedactionConfig,
+  ContentLimitsConfig,
+  ContentMode,
+  SemanticConventions,
+  ModelPrice,
+  ModelPriceConfig,
+  InstrumentOptions,
+  Redactor,
+  BuiltinDetector,
   // Context types
   TraceContext,
+  TraceOptions,
+  CapturedResult,
+  TracedOptions,
+  TracedClassOptions,
+  AgentSpanKind,
+  SpanOptions,
+  LLMCallOptions,
+  LLMCallResult,
+  LLMCallRecord,
+  LLMRequestParams,
+  LLMToolCall,
   // Event types
   EventType,
   LLMProvider,
+  LogLevel,
   BaseTelemetryEvent,
   TelemetryEvent,
   LLMCallEvent,
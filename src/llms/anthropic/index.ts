@@ -24,18 +24,41 @@
 import { AgentBasis } from '../../core/client';
 import type { Transport } from '../../core/transport';
 import type { Span } from '@opentelemetry/api';
+import type { ContentMode, InstrumentOptions, LLMRequestParams, LLMToolCall } from '../../types';
 import { debug, warn } from '../../utils/logger';
 
 /** Track if Anthropic has been instrumented */
 let isInstrumented = false;
 
+/** Content mode for spans from this integration (falls back to the global mode) */
+let contentMode: ContentMode | undefined;
+
 /** Store original methods for uninstrumentation */
 const originalMethods: Map<string, unknown> = new Map();
 
+/** Usage fields of a message; `input_tokens` excludes cache reads and writes */
+interface AnthropicUsage {
+  input_tokens?: number | null;
+  output_tokens?: number | null;
+  cache_read_input_tokens?: number | null;
+  cache_creation_input_tokens?: number | null;
+}
+
+/** Message fields read for usage, response metadata and tool calls */
+interface AnthropicMessage {
+  id?: string;
+  model?: string;
+  stop_reason?: string | null;
+  usage?: AnthropicUsage;
+  content?: Array<{ type?: string; id?: string; name?: string; input?: unknown }>;
+}
+
 /**
  * Instrument the Anthropic SDK to automatically track all LLM calls
+ *
+ * @param options - Integration options such as `contentMode`
  */
-export function instrument(): void {
+export function instrument(options: InstrumentOptions = {}): void {
   if (isInstrumented) {
     warn('Anthropic is already instrumented');
     return;
@@ -52,6 +75,7 @@ export function instrument(): void {
 
     patchMessages(Anthropic);
 
+    contentMode = options.contentMode;
     isInstrumented = true;
     debug('Anthropic instrumentation enabled');
   } catch (err) {
@@ -127,6 +151,8 @@ function patchMessages(Anthropic: unknown): void {
       'anthropic',
       model
     );
+    transport.setContentMode(span, contentMode);
+    transport.setLLMRequestParams(span, requestParams(params));
 
     try {
       // Call original method
@@ -138,15 +164,13 @@ function patchMessages(Anthropic: unknown): void {
       }
 
       // Non-streaming response
-      const usage = result.usage;
-
       transport.endLLMSpan(span, {
-        inputTokens: usage?.input_tokens,
-        outputTokens: usage?.output_tokens,
-        totalTokens: (usage?.input_tokens || 0) + (usage?.output_tokens || 0),
+        ...usageTokens(result.usage),
         prompt: params.messages,
         response: result,
+        toolCalls: toolCalls(result),
         streamed: false,
+        ...responseMetadata(result),
       });
 
       return result;
@@ -186,6 +210,8 @@ function patchMessages(Anthropic: unknown): void {
         'anthropic',
         model
       );
+      transport.setContentMode(span, contentMode);
+      transport.setLLMRequestParams(span, requestParams(params));
 
       try {
         const stream = originalStream.call(this, params, options);
@@ -205,6 +231,87 @@ function patchMessages(Anthropic: unknown): void {
   }
 }
 
+/**
+ * Extract sampling and tool parameters from a messages request
+ */
+function requestParams(params: Record<string, unknown>): LLMRequestParams {
+  const tools = params.tools as unknown[] | undefined;
+  const choice = params.tool_choice as { type?: string; name?: string } | undefined;
+
+  return {
+    temperature: params.temperature as number | undefined,
+    topP: params.top_p as number | undefined,
+    maxTokens: params.max_tokens as number | undefined,
+    stopSequences: params.stop_sequences as string[] | undefined,
+    toolChoice:
+      choice?.type === 'tool' && choice.name !== undefined
+        ? `tool:${choice.name}`
+        : choice?.type === 'any'
+          ? 'required'
+          : choice?.type,
+    toolCount: Array.isArray(tools) ? tools.length : undefined,
+  };
+}
+
+/**
+ * Extract the stop reason, response ID and served model from a message
+ */
+function responseMetadata(message: AnthropicMessage | undefined): {
+  finishReasons: string[] | undefined;
+  responseId: string | undefined;
+  responseModel: string | undefined;
+} {
+  return {
+    finishReasons: typeof message?.stop_reason === 'string' ? [message.stop_reason] : undefined,
+    responseId: message?.id,
+    responseModel: message?.model,
+  };
+}
+
+/**
+ * Token counts of a message's usage
+ *
+ * Anthropic reports cache reads and writes separately from `input_tokens`, so they are added back
+ * into `inputTokens`, with cache reads also reported as `cachedInputTokens`. Without usage all
+ * counts are undefined, so no zero token counts or costs are recorded.
+ */
+function usageTokens(usage: AnthropicUsage | undefined): {
+  inputTokens: number | undefined;
+  outputTokens: number | undefined;
+  totalTokens: number | undefined;
+  cachedInputTokens: number | undefined;
+} {
+  if (usage === undefined) {
+    return {
+      inputTokens: undefined,
+      outputTokens: undefined,
+      totalTokens: undefined,
+      cachedInputTokens: undefined,
+    };
+  }
+  const cachedInputTokens = usage.cache_read_input_tokens ?? undefined;
+  const inputTokens =
+    (usage.input_tokens ?? 0) +
+    (cachedInputTokens ?? 0) +
+    (usage.cache_creation_input_tokens ?? 0);
+  const outputTokens = usage.output_tokens ?? 0;
+  return {
+    inputTokens,
+    outputTokens,
+    totalTokens: inputTokens + outputTokens,
+    cachedInputTokens,
+  };
+}
+
+/**
+ * Collect the `tool_use` blocks of a message
+ */
+function toolCalls(message: AnthropicMessage | undefined): LLMToolCall[] {
+  return (message?.content ?? [])
+    .filter((block) => block.type === 'tool_use')
+    .map((block) => ({ name: block.name ?? 'unknown', id: block.id, arguments: block.input }));
+}
+
 /**
  * Wrap streaming response to track completion
  */
@@ -215,46 +322,77 @@ async function* wrapStreamingResponse(
   params: { messages: Array<{ role: string; content: string | Array<unknown> }> }
 ): AsyncGenerator<unknown, void, undefined> {
   let totalContent = '';
-  let inputTokens = 0;
-  let outputTokens = 0;
+  let usage: AnthropicUsage | undefined;
   let stopReason: string | null = null;
+  let startMessage: AnthropicMessage | undefined;
+  // tool_use blocks stream their input as JSON fragments, keyed by content block index
+  const streamedToolCalls = new Map<number, LLMToolCall & { arguments: string }>();
 
   try {
     for await (const event of stream) {
       // @ts-expect-error - Accessing Anthropic event structure
       const eventType = event.type;
 
+      if (eventType === 'content_block_start') {
+        // @ts-expect-error - Accessing Anthropic event structure
+        const { index, content_block: block } = event;
+        if (block?.type === 'tool_use') {
+          streamedToolCalls.set(index, { name: block.name, id: block.id, arguments: '' });
+        }
+      }
+
       if (eventType === 'content_block_delta') {
+        transport.markFirstToken(span);
         // @ts-expect-error - Accessing Anthropic event structure
         const delta = event.delta;
         if (delta?.text) {
           totalContent += delta.text;
         }
+        // @ts-expect-error - Accessing Anthropic event structure
+        const toolCall = streamedToolCalls.get(event.index);
+        if (toolCall && delta?.type === 'input_json_delta') {
+          toolCall.arguments += delta.partial_json ?? '';
+        }
       }
 
       if (eventType === 'message_delta') {
         // @ts-expect-error - Accessing Anthropic event structure
         stopReason = event.delta?.stop_reason || stopReason;
         // @ts-expect-error - Accessing Anthropic event structure
-        outputTokens = event.usage?.output_tokens || outputTokens;
+        const deltaUsage: AnthropicUsage | undefined = event.usage;
+        if (deltaUsage) {
+          const outputTokens = deltaUsage.output_tokens || (usage?.output_tokens ?? null);
+          usage = { ...usage, output_tokens: outputTokens };
+        }
       }
 
       if (eventType === 'message_start') {
         // @ts-expect-error - Accessing Anthropic event structure
-        inputTokens = event.message?.usage?.input_tokens || inputTokens;
+        startMessage = event.message;
+        if (startMessage?.usage) {
+          usage = { ...usage, ...startMessage.usage };
+        }
       }
 
       yield event;
     }
 
-    // Stream completed successfully
+    // Stream completed successfully; tools without parameters stream no input fragments
+    const calls = [...streamedToolCalls.values()].map((toolCall) => ({
+      ...toolCall,
+      arguments: toolCall.arguments === '' ? '{}' : toolCall.arguments,
+    }));
     transport.endLLMSpan(span, {
-      inputTokens,
-      outputTokens,
-      totalTokens: inputTokens + outputTokens,
+      ...usageTokens(usage),
       prompt: params.messages,
-      response: { content: totalContent, stop_reason: stopReason },
+      response: {
+        content: totalContent,
+        stop_reason: stopReason,
+        ...(calls.length > 0 ? { tool_calls: calls } : {}),
+      },
+      toolCalls: calls,
       streamed: true,
+      ...responseMetadata({ ...startMessage, stop_reason: stopReason }),
     });
   } catch (err) {
     const error = err instanceof Error ? err : new Error(String(err));
@@ -281,8 +419,7 @@ function wrapAnthropicStream(
 
   // @ts-expect-error - Accessing stream methods
   if (typeof stream.on === 'function') {
-    let inputTokens = 0;
-    let outputTokens = 0;
+    let usage: AnthropicUsage | undefined;
     let ended = false;
     const endStreamSpan = (opts: Parameters<Transport['endLLMSpan']>[1]): void => {
       if (ended) return;
@@ -291,21 +428,19 @@ function wrapAnthropicStream(
     };
 
     // @ts-expect-error - Accessing stream methods
-    stream.on('message', (message: unknown) => {
-      // @ts-expect-error - Accessing message structure
-      const usage = message.usage;
-      if (usage) {
-        inputTokens = usage.input_tokens || inputTokens;
-        outputTokens = usage.output_tokens || outputTokens;
-      }
+    stream.on('text', () => transport.markFirstToken(span));
+
+    // @ts-expect-error - Accessing stream methods
+    stream.on('message', (message: AnthropicMessage) => {
+      usage = message.usage ?? usage;
 
       endStreamSpan({
-        inputTokens,
-        outputTokens,
-        totalTokens: inputTokens + outputTokens,
+        ...usageTokens(usage),
         prompt: params.messages,
         response: message,
+        toolCalls: toolCalls(message),
         streamed: true,
+        ...responseMetadata(message),
       });
     });
 
@@ -313,9 +448,7 @@ function wrapAnthropicStream(
     // @ts-expect-error - Accessing stream methods
     stream.on('end', () => {
       endStreamSpan({
-        inputTokens,
-        outputTokens,
-        totalTokens: inputTokens + outputTokens,
+        ...usageTokens(usage),
         prompt: params.messages,
         streamed: true,
       });
@@ -25,18 +25,56 @@
 import { AgentBasis } from '../../core/client';
 import type { Transport } from '../../core/transport';
 import type { Span } from '@opentelemetry/api';
+import type { ContentMode, InstrumentOptions, LLMRequestParams, LLMToolCall } from '../../types';
 import { debug, warn } from '../../utils/logger';
 
 /** Track if Gemini has been instrumented */
 let isInstrumented = false;
 
+/** Content mode for spans from this integration (falls back to the global mode) */
+let contentMode: ContentMode | undefined;
+
 /** Store original methods for uninstrumentation */
 const originalMethods: Map<string, unknown> = new Map();
 
+/** Generation and tool settings of a model, chat session or request */
+interface GeminiRequestConfig {
+  generationConfig?: {
+    temperature?: number;
+    topP?: number;
+    maxOutputTokens?: number;
+    stopSequences?: string[];
+    seed?: number;
+    responseMimeType?: string;
+    responseSchema?: unknown;
+  };
+  tools?: Array<{ functionDeclarations?: unknown[] }>;
+  toolConfig?: { functionCallingConfig?: { mode?: string; allowedFunctionNames?: string[] } };
+}
+
+/** Response fields read for usage, response metadata and tool calls */
+interface GeminiResponse {
+  usageMetadata?: {
+    promptTokenCount?: number;
+    candidatesTokenCount?: number;
+    totalTokenCount?: number;
+    cachedContentTokenCount?: number;
+    thoughtsTokenCount?: number;
+  };
+  responseId?: string;
+  modelVersion?: string;
+  candidates?: Array<{
+    finishReason?: string;
+    content?: { parts?: Array<{ functionCall?: { name?: string; id?: string; args?: unknown } }> };
+  }>;
+}
+
 /**
  * Instrument the Google Generative AI SDK to automatically track all LLM calls
+ *
+ * @param options - Integration options such as `contentMode`
  */
-export function instrument(): void {
+export function instrument(options: InstrumentOptions = {}): void {
   if (isInstrumented) {
     warn('Gemini is already instrumented');
     return;
@@ -53,6 +91,7 @@ export function instrument(): void {
 
     patchGenerativeModel(genaiModule);
 
+    contentMode = options.contentMode;
     isInstrumented = true;
     debug('Gemini instrumentation enabled');
   } catch (err) {
@@ -108,7 +147,7 @@ function patchGenerativeModel(genaiModule: unknown): void {
     originalMethods.set('generateContent', originalGenerateContent);
 
     GenerativeModel.prototype.generateContent = async function patchedGenerateContent(
-      this: { model: string },
+      this: { model: string } & GeminiRequestConfig,
       request: string | { contents: Array<unknown>; [key: string]: unknown } | Array<unknown>,
       options?: unknown
     ): Promise<unknown> {
@@ -122,22 +161,21 @@ function patchGenerativeModel(genaiModule: unknown): void {
         'gemini',
         model
       );
+      transport.setContentMode(span, contentMode);
+      transport.setLLMRequestParams(span, requestParams(this, request));
 
       // Normalize request for logging
       const prompt = typeof request === 'string' ? request : request;
 
       try {
         const result = await originalGenerateContent.call(this, request, options);
-        // Extract usage metadata
-        const usageMetadata = result.response?.usageMetadata;
-
         transport.endLLMSpan(span, {
-          inputTokens: usageMetadata?.promptTokenCount,
-          outputTokens: usageMetadata?.candidatesTokenCount,
-          totalTokens: usageMetadata?.totalTokenCount,
+          ...usageTokens(result.response),
           prompt,
           response: result,
+          toolCalls: toolCalls(result.response),
           streamed: false,
+          ...responseMetadata(result.response),
         });
 
         return result;
@@ -159,7 +197,7 @@ function patchGenerativeModel(genaiModule: unknown): void {
     originalMethods.set('generateContentStream', originalGenerateContentStream);
 
     GenerativeModel.prototype.generateContentStream = async function patchedGenerateContentStream(
-      this: { model: string },
+      this: { model: string } & GeminiRequestConfig,
       request: string | { contents: Array<unknown>; [key: string]: unknown } | Array<unknown>,
       options?: unknown
     ): Promise<unknown> {
@@ -173,6 +211,8 @@ function patchGenerativeModel(genaiModule: unknown): void {
         'gemini',
         model
       );
+      transport.setContentMode(span, contentMode);
+      transport.setLLMRequestParams(span, requestParams(this, request));
 
       const prompt = typeof request === 'string' ? request : request;
 
@@ -199,10 +239,12 @@ function patchGenerativeModel(genaiModule: unknown): void {
     originalMethods.set('startChat', originalStartChat);
 
     GenerativeModel.prototype.startChat = function patchedStartChat(
-      this: { model: string },
+      this: { model: string } & GeminiRequestConfig,
       params?: unknown
     ): unknown {
       const chat = originalStartChat.call(this, params);
+      // Chat settings replace the model's and apply to every message
+      const chatParams = requestParams(this, params);
 
       // Patch the chat's sendMessage method
       if (chat && typeof chat.sendMessage === 'function') {
@@ -221,18 +263,18 @@ function patchGenerativeModel(genaiModule: unknown): void {
             'gemini',
             model
           );
+          transport.setContentMode(span, contentMode);
+          transport.setLLMRequestParams(span, chatParams);
 
           try {
             const result = await originalSendMessage(request, options);
-            const usageMetadata = result.response?.usageMetadata;
-
             transport.endLLMSpan(span, {
-              inputTokens: usageMetadata?.promptTokenCount,
-              outputTokens: usageMetadata?.candidatesTokenCount,
-              totalTokens: usageMetadata?.totalTokenCount,
+              ...usageTokens(result.response),
               prompt: request,
               response: result,
+              toolCalls: toolCalls(result.response),
               streamed: false,
+              ...responseMetadata(result.response),
             });
 
             return result;
@@ -265,6 +307,8 @@ function patchGenerativeModel(genaiModule: unknown): void {
               'gemini',
               model
             );
+            transport.setContentMode(span, contentMode);
+            transport.setLLMRequestParams(span, chatParams);
 
             try {
               const result = await originalSendMessageStream(request, options);
@@ -305,6 +349,7 @@ function patchGenerativeModel(genaiModule: unknown): void {
         'gemini',
         model
       );
+      transport.setContentMode(span, contentMode);
 
       try {
         const result = await originalEmbedContent.call(this, request, options);
@@ -328,6 +373,119 @@ function patchGenerativeModel(genaiModule: unknown): void {
   }
 }
 
+/**
+ * Extract sampling and tool parameters, letting settings passed with the request replace the
+ * model's defaults
+ */
+function requestParams(defaults: GeminiRequestConfig, request: unknown): LLMRequestParams {
+  const overrides: GeminiRequestConfig =
+    typeof request === 'object' && request !== null && !Array.isArray(request) ? request : {};
+  const generationConfig = overrides.generationConfig ?? defaults.generationConfig;
+  const tools = overrides.tools ?? defaults.tools;
+  const calling = (overrides.toolConfig ?? defaults.toolConfig)?.functionCallingConfig;
+
+  return {
+    temperature: generationConfig?.temperature,
+    topP: generationConfig?.topP,
+    maxTokens: generationConfig?.maxOutputTokens,
+    stopSequences: generationConfig?.stopSequences,
+    seed: generationConfig?.seed,
+    responseFormat: responseFormat(generationConfig),
+    toolChoice: toolChoice(calling),
+    // Each function declaration is a tool; built-in tools such as code execution count once
+    toolCount: tools?.reduce((count, tool) => count + (tool.functionDeclarations?.length ?? 1), 0),
+  };
+}
+
+/**
+ * Map `responseMimeType` to `text`, `json` or `json_schema`
+ */
+function responseFormat(config: GeminiRequestConfig['generationConfig']): string | undefined {
+  const mimeType = config?.responseMimeType;
+  if (mimeType === 'text/plain') {
+    return 'text';
+  }
+  if (mimeType === 'application/json') {
+    return config?.responseSchema !== undefined ? 'json_schema' : 'json';
+  }
+  return mimeType;
+}
+
+/**
+ * Map the function calling mode to `auto`, `none`, `required` or `tool:<name>`
+ */
+function toolChoice(
+  calling: NonNullable<GeminiRequestConfig['toolConfig']>['functionCallingConfig']
+): string | undefined {
+  const allowed = calling?.allowedFunctionNames;
+  switch (calling?.mode) {
+    case 'AUTO':
+      return 'auto';
+    case 'NONE':
+      return 'none';
+    case 'ANY':
+      return allowed?.length === 1 ? `tool:${allowed[0]}` : 'required';
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Extract candidate finish reasons, response ID and served model version from a response
+ */
+function responseMetadata(response: GeminiResponse | undefined): {
+  finishReasons: string[] | undefined;
+  responseId: string | undefined;
+  responseModel: string | undefined;
+} {
+  return {
+    finishReasons: response?.candidates?.flatMap((candidate) =>
+      candidate.finishReason !== undefined ? [candidate.finishReason] : []
+    ),
+    responseId: response?.responseId,
+    responseModel: response?.modelVersion,
+  };
+}
+
+/**
+ * Token counts of a response
+ *
+ * `candidatesTokenCount` excludes thinking tokens, so they are added to `outputTokens` and also
+ * reported as `reasoningTokens`. `promptTokenCount` already includes cached content.
+ */
+function usageTokens(response: GeminiResponse | undefined): {
+  inputTokens: number | undefined;
+  outputTokens: number | undefined;
+  totalTokens: number | undefined;
+  cachedInputTokens: number | undefined;
+  reasoningTokens: number | undefined;
+} {
+  const usage = response?.usageMetadata;
+  const reasoningTokens = usage?.thoughtsTokenCount;
+  const outputTokens =
+    usage?.candidatesTokenCount !== undefined || reasoningTokens !== undefined
+      ? (usage?.candidatesTokenCount ?? 0) + (reasoningTokens ?? 0)
+      : undefined;
+  return {
+    inputTokens: usage?.promptTokenCount,
+    outputTokens,
+    totalTokens: usage?.totalTokenCount,
+    cachedInputTokens: usage?.cachedContentTokenCount,
+    reasoningTokens,
+  };
+}
+
+/**
+ * Collect the `functionCall` parts of every candidate
+ */
+function toolCalls(response: GeminiResponse | undefined): LLMToolCall[] {
+  return (response?.candidates ?? []).flatMap((candidate) =>
+    (candidate.content?.parts ?? []).flatMap(({ functionCall: call }) =>
+      call ? [{ name: call.name ?? 'unknown', id: call.id, arguments: call.args }] : []
+    )
+  );
+}
+
 /**
  * Wrap Gemini stream response
  */
@@ -360,6 +518,7 @@ function wrapGeminiStream(
 
     try {
       for await (const chunk of originalStream) {
+        transport.markFirstToken(span);
         const text = chunk.text?.();
         if (text) {
           totalText += text;
@@ -381,16 +540,13 @@ function wrapGeminiStream(
   if (responsePromise && typeof responsePromise.then === 'function') {
     responsePromise
       .then((response: unknown) => {
-        // @ts-expect-error - Accessing response structure
-        const usageMetadata = response?.usageMetadata;
-
         endStreamSpan({
-          inputTokens: usageMetadata?.promptTokenCount,
-          outputTokens: usageMetadata?.candidatesTokenCount,
-          totalTokens: usageMetadata?.totalTokenCount,
+          ...usageTokens(response as GeminiResponse),
           prompt,
           response,
+          toolCalls: toolCalls(response as GeminiResponse),
           streamed: true,
+          ...responseMetadata(response as GeminiResponse),
         });
       })
       .catch((err: Error) => {
@@ -24,18 +24,44 @@
 import { AgentBasis } from '../../core/client';
 import type { Transport } from '../../core/transport';
 import type { Span } from '@opentelemetry/api';
+import type { ContentMode, InstrumentOptions, LLMRequestParams, LLMToolCall } from '../../types';
 import { debug, warn } from '../../utils/logger';
 
 /** Track if OpenAI has been instrumented */
 let isInstrumented = false;
 
+/** Content mode for spans from this integration (falls back to the global mode) */
+let contentMode: ContentMode | undefined;
+
 /** Store original methods for uninstrumentation */
 const originalMethods: Map<string, unknown> = new Map();
 
+/** A tool call in a chat message, or a fragment of one in a stream delta */
+interface OpenAIToolCall {
+  index?: number;
+  id?: string;
+  function?: { name?: string; arguments?: string };
+}
+
+/** Response fields shared by chat and legacy completions results and stream chunks */
+interface OpenAIResponse {
+  id?: string;
+  model?: string;
+  system_fingerprint?: string | null;
+  choices?: Array<{
+    index?: number;
+    finish_reason?: string | null;
+    message?: { tool_calls?: OpenAIToolCall[]; function_call?: OpenAIToolCall['function'] };
+    delta?: { tool_calls?: OpenAIToolCall[] };
+  }>;
+}
+
 /**
  * Instrument the OpenAI SDK to automatically track all LLM calls
+ *
+ * @param options - Integration options such as `contentMode`
  */
-export function instrument(): void {
+export function instrument(options: InstrumentOptions = {}): void {
   if (isInstrumented) {
     warn('OpenAI is already instrumented');
     return;
@@ -54,6 +80,7 @@ export function instrument(): void {
     patchCompletions(OpenAI);
     patchEmbeddings(OpenAI);
 
+    contentMode = options.contentMode;
     isInstrumented = true;
     debug('OpenAI instrumentation enabled');
   } catch (err) {
@@ -136,6 +163,8 @@ function patchChatCompletions(OpenAI: unknown): void {
       'openai',
       model
     );
+    transport.setContentMode(span, contentMode);
+    transport.setLLMRequestParams(span, requestParams(params));
 
     try {
       // Call original method
@@ -153,9 +182,13 @@ function patchChatCompletions(OpenAI: unknown): void {
         inputTokens: usage?.prompt_tokens,
         outputTokens: usage?.completion_tokens,
         totalTokens: usage?.total_tokens,
+        cachedInputTokens: usage?.prompt_tokens_details?.cached_tokens,
+        reasoningTokens: usage?.completion_tokens_details?.reasoning_tokens,
         prompt: params.messages,
         response: result,
+        toolCalls: toolCalls(result),
         streamed: false,
+        ...responseMetadata(result),
       });
 
       return result;
@@ -171,6 +204,75 @@ function patchChatCompletions(OpenAI: unknown): void {
   };
 }
 
+/**
+ * Extract sampling and tool parameters from a chat or legacy completions request
+ */
+function requestParams(params: Record<string, unknown>): LLMRequestParams {
+  const stop = params.stop as string | string[] | null | undefined;
+  const responseFormat = (params.response_format as { type?: string } | undefined)?.type;
+  const tools = (params.tools ?? params.functions) as unknown[] | undefined;
+
+  return {
+    temperature: params.temperature as number | undefined,
+    topP: params.top_p as number | undefined,
+    maxTokens: (params.max_completion_tokens ?? params.max_tokens) as number | undefined,
+    stopSequences: typeof stop === 'string' ? [stop] : (stop ?? undefined),
+    seed: params.seed as number | undefined,
+    responseFormat: responseFormat === 'json_object' ? 'json' : responseFormat,
+    toolChoice: toolChoice(params.tool_choice ?? params.function_call),
+    toolCount: Array.isArray(tools) ? tools.length : undefined,
+  };
+}
+
+/**
+ * Normalize `tool_choice` (or legacy `function_call`) to `auto`, `none`, `required` or
+ * `tool:<name>`
+ */
+function toolChoice(choice: unknown): string | undefined {
+  if (typeof choice === 'string') {
+    return choice;
+  }
+  const forced = choice as { name?: string; function?: { name?: string } } | undefined;
+  const name = forced?.function?.name ?? forced?.name;
+  return name !== undefined ? `tool:${name}` : undefined;
+}
+
+/**
+ * Extract finish reasons, response ID, served model and system fingerprint from a response
+ */
+function responseMetadata(result: OpenAIResponse | undefined): {
+  finishReasons: string[] | undefined;
+  responseId: string | undefined;
+  responseModel: string | undefined;
+  systemFingerprint: string | undefined;
+} {
+  return {
+    finishReasons: result?.choices?.flatMap((choice) =>
+      typeof choice.finish_reason === 'string' ? [choice.finish_reason] : []
+    ),
+    responseId: result?.id,
+    responseModel: result?.model,
+    systemFingerprint: result?.system_fingerprint ?? undefined,
+  };
+}
+
+/**
+ * Collect the tool calls (and legacy function calls) requested across a response's choices
+ */
+function toolCalls(result: OpenAIResponse | undefined): LLMToolCall[] {
+  return (result?.choices ?? []).flatMap(({ message }) => {
+    const calls = [
+      ...(message?.tool_calls ?? []),
+      ...(message?.function_call ? [{ function: message.function_call }] : []),
+    ];
+    return calls.map((call) => ({
+      name: call.function?.name ?? 'unknown',
+      id: call.id,
+      arguments: call.function?.arguments,
+    }));
+  });
+}
+
 /**
  * Wrap streaming response to track completion
  */
@@ -182,10 +284,25 @@ async function* wrapStreamingResponse(
 ): AsyncGenerator<unknown, void, undefined> {
   let totalContent = '';
   let finishReason: string | null = null;
-  let usage: { prompt_tokens?: number; completion_tokens?: number; total_tokens?: number } | undefined;
+  const finishReasons: string[] = [];
+  let responseId: string | undefined;
+  let responseModel: string | undefined;
+  let systemFingerprint: string | undefined;
+  // Tool calls arrive as fragments keyed by choice and tool call index
+  const streamedToolCalls = new Map<string, LLMToolCall & { arguments: string }>();
+  let usage:
+    | {
+        prompt_tokens?: number;
+        completion_tokens?: number;
+        total_tokens?: number;
+        prompt_tokens_details?: { cached_tokens?: number };
+        completion_tokens_details?: { reasoning_tokens?: number };
+      }
+    | undefined;
 
   try {
     for await (const chunk of stream) {
+      transport.markFirstToken(span);
       // @ts-expect-error - Accessing OpenAI chunk structure
       const delta = chunk.choices?.[0]?.delta;
       // @ts-expect-error - Accessing OpenAI chunk structure
@@ -205,17 +322,48 @@ async function* wrapStreamingResponse(
         usage = chunkUsage;
       }
 
+      // ID, model and fingerprint repeat on every chunk; each choice reports its finish once
+      const { id, model, system_fingerprint: fingerprint, choices } = chunk as OpenAIResponse;
+      responseId ??= id;
+      responseModel ??= model;
+      systemFingerprint ??= fingerprint ?? undefined;
+      for (const choice of choices ?? []) {
+        if (typeof choice.finish_reason === 'string') {
+          finishReasons.push(choice.finish_reason);
+        }
+        for (const fragment of choice.delta?.tool_calls ?? []) {
+          const key = `${choice.index ?? 0}:${fragment.index ?? 0}`;
+          const toolCall = streamedToolCalls.get(key) ?? { name: '', arguments: '' };
+          toolCall.id ??= fragment.id;
+          toolCall.name += fragment.function?.name ?? '';
+          toolCall.arguments += fragment.function?.arguments ?? '';
+          streamedToolCalls.set(key, toolCall);
+        }
+      }
+
       yield chunk;
     }
 
     // Stream completed successfully
+    const calls = [...streamedToolCalls.values()];
     transport.endLLMSpan(span, {
       inputTokens: usage?.prompt_tokens,
       outputTokens: usage?.completion_tokens,
       totalTokens: usage?.total_tokens,
+      cachedInputTokens: usage?.prompt_tokens_details?.cached_tokens,
+      reasoningTokens: usage?.completion_tokens_details?.reasoning_tokens,
       prompt: params.messages,
-      response: { content: totalContent, finish_reason: finishReason },
+      response: {
+        content: totalContent,
+        finish_reason: finishReason,
+        ...(calls.length > 0 ? { tool_calls: calls } : {}),
+      },
+      toolCalls: calls,
       streamed: true,
+      finishReasons: finishReasons.length > 0 ? finishReasons : undefined,
+      responseId,
+      responseModel,
+      systemFingerprint,
     });
   } catch (err) {
     const error = err instanceof Error ? err : new Error(String(err));
@@ -261,6 +409,8 @@ function patchCompletions(OpenAI: unknown): void {
       'openai',
       model
     );
+    transport.setContentMode(span, contentMode);
+    transport.setLLMRequestParams(span, requestParams(params));
 
     try {
       const result = await originalCreate.call(this, params, options);
@@ -273,6 +423,7 @@ function patchCompletions(OpenAI: unknown): void {
         prompt: params.prompt,
         response: result,
         streamed: false,
+        ...responseMetadata(result),
       });
 
       return result;
@@ -321,6 +472,7 @@ function patchEmbeddings(OpenAI: unknown): void {
       'openai',
       model
     );
+    transport.setContentMode(span, contentMode);
 
     try {
       const result = await originalCreate.call(this, params, options);
@@ -333,6 +485,7 @@ function patchEmbeddings(OpenAI: unknown): void {
         prompt: params.input,
         response: { embedding_count: Array.isArray(result.data) ? result.data.length : 1 },
         streamed: false,
+        responseModel: result.model,
       });
 
       return result;
@@ -2,26 +2,219 @@
  * TypeScript type definitions for AgentBasis SDK
  */
 
+import type { Attributes, SpanKind } from '@opentelemetry/api';
+import type { SpanExporter } from '@opentelemetry/sdk-trace-base';
+
 // ============================================================================
 // Configuration Types
 // ============================================================================
 
+/**
+ * Span exporter configuration
+ *
+ * - `otlp`: OTLP/HTTP export to the configured endpoint (requires an API key for AgentBasis)
+ * - `console`: print spans to stdout
+ * - `file`: append spans as newline-delimited JSON to `path`
+ * - `memory`: keep spans in memory (useful in tests)
+ *
+ * Any OpenTelemetry `SpanExporter` instance may also be passed directly.
+ */
+export type ExporterConfig =
+  | { type: 'otlp' }
+  | { type: 'console' }
+  | { type: 'file'; path: string }
+  | { type: 'memory' }
+  | SpanExporter;
+
+/**
+ * On-disk spool for batches the `otlp` exporter could not deliver
+ */
+export interface SpoolConfig {
+  /** Directory to store failed batches in (created if missing) */
+  directory: string;
+
+  /** Maximum total size of spooled batches in bytes; oldest are evicted first (default: 50 MB) */
+  maxBytes?: number;
+}
+
+/**
+ * Head sampling rule matched by span name and/or LLM provider
+ *
+ * Both criteria must match when both are given. The first matching rule wins.
+ */
+export interface SamplingRule {
+  /** Exact span name, or a RegExp tested against the span name */
+  spanName?: string | RegExp;
+
+  /** LLM provider attribute (e.g. 'openai'), matched exactly */
+  provider?: string;
+
+  /** Fraction of matching spans to keep, from 0 to 1 */
+  ratio: number;
+}
+
+/**
+ * Tail sampling settings: keep whole traces that turned out to be interesting
+ */
+export interface TailSamplingConfig {
+  /** Keep every trace that contains an errored span (default: true) */
+  keepErrors?: boolean;
+
+  /** Keep every trace containing an LLM call slower than this many milliseconds */
+  slowLlmCallMs?: number;
+}
+
+/**
+ * Sampling configuration
+ */
+export interface SamplingConfig {
+  /** Fraction of traces to keep, from 0 to 1 (default: 1) */
+  ratio?: number;
+
+  /** Per-span-name or per-provider ratios that override `ratio` */
+  rules?: SamplingRule[];
+
+  /** Keep traces with errors or slow LLM calls even when head sampling drops them */
+  tail?: TailSamplingConfig;
+}
+
+/**
+ * How much captured content is attached to spans
+ *
+ * - `none`: no content
+ * - `metadata`: message counts, roles and lengths only
+ * - `output-only`: responses and outputs; inputs are reduced to metadata
+ * - `truncated`: inputs and outputs, cut to a short preview
+ * - `full`: inputs and outputs, subject to `contentLimits`
+ */
+export type ContentMode = 'none' | 'metadata' | 'output-only' | 'truncated' | 'full';
+
+/**
+ * Attribute naming for LLM spans
+ *
+ * - `agentbasis`: `llm.*` attributes (default)
+ * - `genai`: OpenTelemetry GenAI `gen_ai.*` attributes, with prompts and completions as
+ *   `gen_ai.content.*` span events
+ * - `both`: emit both, for migrating collectors and dashboards
+ */
+export type SemanticConventions = 'agentbasis' | 'genai' | 'both';
+
+/**
+ * Per-integration options accepted by `instrument()`
+ */
+export interface InstrumentOptions {
+  /** Content mode for spans from this integration (overrides the global mode) */
+  contentMode?: ContentMode;
+}
+
+/**
+ * Built-in redaction detectors
+ */
+export type BuiltinDetector = 'email' | 'phone' | 'credit_card' | 'api_key' | 'bearer_token';
+
+/**
+ * Custom redactor: a regex with an optional replacement, or a function over the text
+ */
+export type Redactor =
+  | { name: string; pattern: RegExp; replacement?: string }
+  | { name: string; redact: (text: string) => string };
+
+/**
+ * Redaction applied to captured content before it is attached to spans
+ */
+export interface RedactionConfig {
+  /** Built-in detectors to run (default: all except `credit_card`) */
+  detectors?: BuiltinDetector[];
+
+  /** Custom redactors, run after the built-in detectors */
+  custom?: Redactor[];
+}
+
+/**
+ * Byte limits for captured content attributes
+ */
+export interface ContentLimitsConfig {
+  /** Limit applied to every content attribute (default: 32768) */
+  maxBytes?: number;
+
+  /** Per-attribute overrides keyed by attribute name, e.g. `{ 'llm.prompt': 131072 }` */
+  attributes?: Record<string, number>;
+}
+
+/**
+ * Token prices in USD per million tokens
+ */
+export interface ModelPrice {
+  /** Uncached input tokens */
+  input: number;
+
+  /** Output tokens */
+  output: number;
+
+  /** Cached input tokens (default: the input rate) */
+  cachedInput?: number;
+
+  /** Reasoning tokens (default: the output rate) */
+  reasoning?: number;
+}
+
+/**
+ * A custom price for a fine-tune, self-hosted model or negotiated rate
+ */
+export interface ModelPriceConfig extends ModelPrice {
+  /** Model name; also matches versioned names that start with it, e.g. `my-model` for `my-model-v2` */
+  model: string;
+
+  /** Only apply to calls from this provider */
+  provider?: string;
+
+  /** First day (`YYYY-MM-DD`) the price applies; later entries for the same model win */
+  effectiveFrom?: string;
+}
+
 /**
  * Full SDK configuration (internal use)
  */
 export interface AgentBasisConfig {
-  /** API key for authentication */
-  apiKey: string;
+  /** API key for authentication (only required by the `otlp` exporter) */
+  apiKey: string | undefined;
 
   /** Agent ID to associate telemetry with */
   agentId: string;
 
+  /** Base URL (or full OTLP traces URL) to export telemetry to */
+  endpoint: string;
+
+  /** Exporters that receive finished spans */
+  exporters: ExporterConfig[];
+
+  /** Disk spool for undeliverable OTLP batches (disabled when undefined) */
+  spool: SpoolConfig | undefined;
+
+  /** Sampling configuration (everything is kept when undefined) */
+  sampling: SamplingConfig | undefined;
+
   /** Whether to include prompt/response content in telemetry */
   includeContent: boolean;
 
-  /** Whether to include binary content (images, etc.) */
+  /** Global content capture mode */
+  contentMode: ContentMode;
+
+  /** Whether to keep small binary parts (images, audio) inline instead of placeholders */
   includeBinaryContent: boolean;
 
+  /** Redaction for captured content (`false` disables it) */
+  redaction: RedactionConfig | false;
+
+  /** Byte limits for captured content */
+  contentLimits: ContentLimitsConfig;
+
+  /** Attribute naming for LLM spans */
+  semanticConventions: SemanticConventions;
+
+  /** Custom model prices, checked before the built-in pricing table */
+  pricing: ModelPriceConfig[] | undefined;
+
   /** Number of events to batch before sending */
   batchSize: number;
 
@@ -46,19 +239,81 @@ export interface InitConfig {
   /** Agent ID (defaults to AGENTBASIS_AGENT_ID env var) */
   agentId?: string;
 
-  /** Whether to include prompt/response content (default: false) */
+  /**
+   * Export endpoint (defaults to AGENTBASIS_ENDPOINT env var, then https://api.agentbasis.co).
+   * Accepts a base URL such as a regional or self-hosted collector (`/v1/traces` is appended)
+   * or a full OTLP/HTTP traces URL ending in `/v1/traces`.
+   */
+  endpoint?: string;
+
+  /**
+   * Exporters that receive finished spans (default: `[{ type: 'otlp' }]`).
+   * Several may be combined, e.g. AgentBasis export plus a local JSONL audit file.
+   * An API key is only required when an `otlp` exporter is configured.
+   */
+  exporters?: ExporterConfig[];
+
+  /**
+   * Keep OTLP batches that fail after all retries in a size-capped directory and replay them on
+   * the next flush or process start (default: disabled)
+   */
+  spool?: SpoolConfig;
+
+  /**
+   * Sampling controls: a head sampling ratio, per-span-name or per-provider rules, and tail
+   * sampling that keeps traces with errors or slow LLM calls (default: keep everything)
+   */
+  sampling?: SamplingConfig;
+
+  /** Whether to include prompt/response content (default: false); shorthand for `contentMode: 'full'` */
   includeContent?: boolean;
 
-  /** Whether to include binary content like images (default: false) */
+  /**
+   * Content capture mode (defaults to `full` or `none` when `includeContent` is passed, then to
+   * the AGENTBASIS_CONTENT_MODE env var, then `none`). Integrations and `withContext` scopes can
+   * override it.
+   */
+  contentMode?: ContentMode;
+
+  /**
+   * Whether to include binary content like images and audio (default: false). When off, binary
+   * parts are replaced with a placeholder carrying MIME type, byte size and SHA-256 hash; when
+   * on, parts up to 16 KB are kept inline.
+   */
   includeBinaryContent?: boolean;
 
+  /**
+   * Redaction for captured prompts, responses and other content (default: all built-in
+   * detectors except `credit_card`). Fired rules are recorded in the `agentbasis.redaction.rules`
+   * span attribute. Pass `false` to disable.
+   */
+  redaction?: RedactionConfig | false;
+
+  /**
+   * Byte limits for captured content (default: 32 KB per attribute). Oversized values are cut on
+   * a UTF-8 boundary, end with a truncation marker and set `<attribute>.truncated` on the span.
+   */
+  contentLimits?: ContentLimitsConfig;
+
+  /**
+   * Attribute naming for LLM spans (defaults to AGENTBASIS_SEMANTIC_CONVENTIONS env var, then
+   * `agentbasis`). Use `both` while moving collectors and dashboards to the GenAI conventions.
+   */
+  semanticConventions?: SemanticConventions;
+
+  /**
+   * Custom model prices used for `llm.cost.usd`, checked before the built-in table of OpenAI,
+   * Anthropic and Gemini prices
+   */
+  pricing?: ModelPriceConfig[];
+
   /** Number of events to batch before sending (default: 100) */
   batchSize?: number;
 
   /** Interval in ms between automatic flushes (default: 5000) */
   flushIntervalMs?: number;
 
-  /** Maximum retries for failed requests (default: 3) */
+  /** Maximum retries for failed OTLP exports on 429/5xx or network errors (default: 3) */
   maxRetries?: number;
 
   /** Enable debug logging (default: false) */
@@ -90,6 +345,202 @@ export interface TraceContext {
 
   /** Custom metadata */
   metadata?: Record<string, unknown>;
+
+  /** Content mode for spans started in this scope (overrides integration and global modes) */
+  contentMode?: ContentMode;
+}
+
+/**
+ * Value passed to a `trace()` result serializer: the awaited return value, or the list of
+ * produced items when the function returns a stream
+ */
+export type CapturedResult<TReturn> =
+  Awaited<TReturn> extends AsyncIterable<infer TItem>
+    ? TItem[]
+    : Awaited<TReturn> extends Iterator<infer TItem>
+      ? TItem[]
+      : Awaited<TReturn>;
+
+/**
+ * Options for `trace()`
+ */
+export interface TraceOptions<TArgs extends unknown[] = unknown[], TReturn = unknown> {
+  /** OpenTelemetry span kind (default: INTERNAL) */
+  kind?: SpanKind;
+
+  /** Attributes to set on each span, or a function computing them from the call arguments */
+  attributes?: Attributes | ((...args: TArgs) => Attributes);
+
+  /**
+   * Record the call arguments as `agentbasis.input`: `true` for the argument list, or a
+   * serializer. Subject to the content mode and redaction.
+   */
+  captureArgs?: boolean | ((...args: TArgs) => unknown);
+
+  /**
+   * Record the (awaited) return value as `agentbasis.output`: `true` for the value itself, or a
+   * serializer. For streams the produced items are collected and recorded once iteration ends.
+   * Subject to the content mode and redaction.
+   */
+  captureResult?: boolean | ((result: CapturedResult<TReturn>) => unknown);
+}
+
+/**
+ * Options for the `@traced()` method decorator
+ */
+export interface TracedOptions extends TraceOptions {
+  /** Span name (default: `ClassName.methodName`) */
+  name?: string;
+}
+
+/**
+ * Options for the `@tracedClass()` decorator, applied to every traced method
+ */
+export interface TracedClassOptions extends TraceOptions {
+  /** Method names to leave untraced */
+  exclude?: string[];
+}
+
+/**
+ * Agent-specific span kinds, recorded as `agentbasis.span.kind`
+ */
+export type AgentSpanKind = 'agent' | 'tool' | 'retrieval' | 'llm' | 'guardrail';
+
+/**
+ * Options for manually created spans
+ */
+export interface SpanOptions {
+  /** Agent-specific span kind */
+  kind?: AgentSpanKind;
+
+  /** Attributes to set when the span starts */
+  attributes?: Attributes;
+
+  /** Input to record as `agentbasis.input` (subject to the content mode and redaction) */
+  input?: unknown;
+}
+
+/**
+ * Request parameters of an LLM call, recorded as `llm.request.*` span attributes
+ */
+export interface LLMRequestParams {
+  temperature?: number | undefined;
+  topP?: number | undefined;
+
+  /** Output token limit (`max_tokens`, `max_completion_tokens` or `maxOutputTokens`) */
+  maxTokens?: number | undefined;
+
+  stopSequences?: string[] | undefined;
+  seed?: number | undefined;
+
+  /** Requested output format: `text`, `json` or `json_schema` */
+  responseFormat?: string | undefined;
+
+  /** Tool choice: `auto`, `none`, `required` or `tool:<name>` for a forced tool */
+  toolChoice?: string | undefined;
+
+  /** Number of tools offered to the model */
+  toolCount?: number | undefined;
+}
+
+/**
+ * A tool call requested by a model
+ */
+export interface LLMToolCall {
+  /** Tool (function) name */
+  name: string;
+
+  /** Call ID assigned by the provider, used to match the tool result */
+  id?: string | undefined;
+
+  /** Arguments as a JSON string or object (captured subject to the content mode) */
+  arguments?: unknown;
+}
+
+/**
+ * Options for starting a manually reported LLM call
+ */
+export interface LLMCallOptions {
+  /** Provider name: an `LLMProvider` or any name for in-house or unsupported model servers */
+  provider: string;
+
+  /** Model name */
+  model: string;
+
+  /** Span name (default: `<provider>.llm_call`) */
+  name?: string;
+
+  /** Prompt content (subject to the content mode and redaction) */
+  prompt?: unknown;
+
+  /** Sampling and tool parameters the call was made with */
+  params?: LLMRequestParams;
+}
+
+/**
+ * Outcome of a manually reported LLM call
+ */
+export interface LLMCallResult {
+  /** Input tokens */
+  inputTokens?: number;
+
+  /** Output tokens */
+  outputTokens?: number;
+
+  /** Total tokens */
+  totalTokens?: number;
+
+  /** Input tokens served from a prompt cache, included in `inputTokens` */
+  cachedInputTokens?: number;
+
+  /** Reasoning tokens, included in `outputTokens` */
+  reasoningTokens?: number;
+
+  /** Response content (subject to the content mode and redaction) */
+  response?: unknown;
+
+  /** Tool calls requested by the model, each recorded as an `llm.tool_call` span event */
+  toolCalls?: LLMToolCall[];
+
+  /** Whether the response was streamed */
+  streamed?: boolean;
+
+  /** Why generation stopped, one entry per choice or candidate (e.g. `stop`, `length`) */
+  finishReasons?: string[];
+
+  /** Response ID assigned by the provider */
+  responseId?: string;
+
+  /** Model that served the call, when it differs from the requested name */
+  responseModel?: string;
+
+  /** Backend configuration fingerprint reported by OpenAI-compatible servers */
+  systemFingerprint?: string;
+
+  /** HTTP status code if applicable */
+  statusCode?: number;
+
+  /** Time to the first streamed token in milliseconds */
+  timeToFirstTokenMs?: number;
+
+  /** Error if the call failed */
+  error?: string | Error;
+}
+
+/**
+ * A completed LLM call reported after the fact
+ *
+ * `LLMCallEvent` objects are accepted as-is.
+ */
+export interface LLMCallRecord extends LLMCallOptions, LLMCallResult {
+  /** When the call started (default: `durationMs` before now) */
+  timestamp?: string | Date;
+
+  /** Request duration in milliseconds */
+  durationMs?: number;
+
+  /** Trace context to stamp on the span, in addition to the active `withContext()` scope */
+  context?: TraceContext;
 }
 
 // ============================================================================
@@ -106,6 +557,11 @@ export type EventType = 'llm_call' | 'span' | 'log' | 'error';
  */
 export type LLMProvider = 'openai' | 'anthropic' | 'gemini' | 'other';
 
+/**
+ * Log levels for `AgentBasis.log()`
+ */
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
 /**
  * Base telemetry event
  */
@@ -192,7 +648,7 @@ export interface LogEvent extends BaseTelemetryEvent {
   type: 'log';
 
   /** Log level */
-  level: 'debug' | 'info' | 'warn' | 'error';
+  level: LogLevel;
 
   /** Log message */
   message: string;
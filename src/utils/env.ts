@@ -2,13 +2,16 @@
  * Environment variable utilities for AgentBasis SDK
  */
 
-/** AgentBasis API base URL (hardcoded) */
+/** Default AgentBasis API base URL (override with `endpoint` or AGENTBASIS_ENDPOINT) */
 export const AGENTBASIS_API_URL = 'https://api.agentbasis.co';
 
 /** Environment variable names used by the SDK */
 export const ENV_VARS = {
   API_KEY: 'AGENTBASIS_API_KEY',
   AGENT_ID: 'AGENTBASIS_AGENT_ID',
+  ENDPOINT: 'AGENTBASIS_ENDPOINT',
+  CONTENT_MODE: 'AGENTBASIS_CONTENT_MODE',
+  SEMANTIC_CONVENTIONS: 'AGENTBASIS_SEMANTIC_CONVENTIONS',
   DEBUG: 'AGENTBASIS_DEBUG',
   INCLUDE_CONTENT: 'AGENTBASIS_INCLUDE_CONTENT',
 } as const;
@@ -70,13 +73,19 @@ export function isDebugMode(): boolean {
 export function getAgentBasisEnvVars(): {
   apiKey: string | undefined;
   agentId: string | undefined;
+  endpoint: string | undefined;
   debug: boolean;
   includeContent: boolean;
+  contentMode: string | undefined;
+  semanticConventions: string | undefined;
 } {
   return {
     apiKey: getEnvVar(ENV_VARS.API_KEY),
     agentId: getEnvVar(ENV_VARS.AGENT_ID),
+    endpoint: getEnvVar(ENV_VARS.ENDPOINT),
     debug: getEnvVarBool(ENV_VARS.DEBUG, false),
     includeContent: getEnvVarBool(ENV_VARS.INCLUDE_CONTENT, false),
+    contentMode: getEnvVar(ENV_VARS.CONTENT_MODE),
+    semanticConventions: getEnvVar(ENV_VARS.SEMANTIC_CONVENTIONS),
   };
 }
@@ -0,0 +1,131 @@
+import { createHash } from 'crypto';
+import { afterEach, describe, expect, it } from 'vitest';
+import { AgentBasis } from '../../src/core/client';
+import { LLM_ATTRIBUTES } from '../../src/core/attributes';
+import { MAX_INLINE_BINARY_BYTES, replaceBinaryContent } from '../../src/core/binary';
+
+const image = Buffer.from('fake png bytes');
+const imageBase64 = image.toString('base64');
+const imagePlaceholder = `[binary:image/png;bytes=${image.length};sha256=${createHash('sha256')
+  .update(image)
+  .digest('hex')}]`;
+
+describe('binary content', () => {
+  afterEach(async () => {
+    await AgentBasis.shutdown();
+  });
+
+  it('replaces OpenAI, Anthropic and Gemini binary parts with placeholders', () => {
+    const openai = [
+      {
+        role: 'user',
+        content: [
+          { type: 'text', text: 'What is this?' },
+          { type: 'image_url', image_url: { url: `data:image/png;base64,${imageBase64}` } },
+          { type: 'input_audio', input_audio: { data: imageBase64, format: 'wav' } },
+        ],
+      },
+    ];
+    const anthropic = {
+      type: 'image',
+      source: { type: 'base64', media_type: 'image/png', data: imageBase64 },
+    };
+    const gemini = { parts: [{ inlineData: { mimeType: 'image/png', data: imageBase64 } }] };
+
+    expect(replaceBinaryContent(openai, false)).toEqual([
+      {
+        role: 'user',
+        content: [
+          { type: 'text', text: 'What is this?' },
+          { type: 'image_url', image_url: { url: imagePlaceholder } },
+          {
+            type: 'input_audio',
+            input_audio: {
+              data: imagePlaceholder.replace('image/png', 'audio/wav'),
+              format: 'wav',
+            },
+          },
+        ],
+      },
+    ]);
+    expect(replaceBinaryContent(anthropic, false)).toEqual({
+      type: 'image',
+      source: { type: 'base64', media_type: 'image/png', data: imagePlaceholder },
+    });
+    expect(replaceBinaryContent(gemini, false)).toEqual({
+      parts: [{ inlineData: { mimeType: 'image/png', data: imagePlaceholder } }],
+    });
+  });
+
+  it('returns content without binary parts unchanged', () => {
+    const messages = [{ role: 'user', content: 'data: not base64' }];
+
+    expect(replaceBinaryContent(messages, false)).toBe(messages);
+  });
+
+  it('leaves plain-text sources and generic data fields alone', () => {
+    const textSource = {
+      type: 'document',
+      source: { type: 'text', media_type: 'text/plain', data: 'plain text' },
+    };
+    const args = [
+      { data: 'hello', format: 'json' },
+      { data: imageBase64, mimeType: 'image/png' },
+    ];
+    const notBase64 = { inlineData: { mimeType: 'image/png', data: 'not base64!' } };
+
+    expect(replaceBinaryContent(textSource, false)).toBe(textSource);
+    expect(replaceBinaryContent(args, false)).toBe(args);
+    expect(replaceBinaryContent(notBase64, false)).toBe(notBase64);
+  });
+
+  it('keeps small parts inline and replaces large ones when binary content is included', () => {
+    const small = { inlineData: { mimeType: 'image/png', data: imageBase64 } };
+    const large = Buffer.alloc(MAX_INLINE_BINARY_BYTES + 1);
+
+    expect(replaceBinaryContent(small, true)).toBe(small);
+    expect(
+      replaceBinaryContent(
+        { inlineData: { mimeType: 'image/png', data: large.toString('base64') } },
+        true
+      )
+    ).toEqual({
+      inlineData: {
+        mimeType: 'image/png',
+        data: expect.stringMatching(
+          new RegExp(`^\\[binary:image/png;bytes=${large.length};sha256=[0-9a-f]{64}\\]$`)
+        ),
+      },
+    });
+  });
+
+  it('strips binary parts from captured prompts', async () => {
+    AgentBasis.init({
+      agentId: 'test-agent',
+      exporters: [{ type: 'memory' }],
+      includeContent: true,
+    });
+    const transport = AgentBasis.getInstance().getTransport();
+
+    const span = transport.startLLMSpan('anthropic.messages.create', 'anthropic', 'claude');
+    transport.endLLMSpan(span, {
+      prompt: [
+        {
+          role: 'user',
+          content: [
+            {
+              type: 'image',
+              source: { type: 'base64', media_type: 'image/png', data: imageBase64 },
+            },
+          ],
+        },
+      ],
+    });
+    await AgentBasis.flush();
+
+    const [exported] = transport.getMemoryExporter()?.getFinishedSpans() ?? [];
+    const prompt = exported?.attributes[LLM_ATTRIBUTES.PROMPT] as string;
+    expect(prompt).toContain(imagePlaceholder);
+    expect(prompt).not.toContain(imageBase64);
+  });
+});
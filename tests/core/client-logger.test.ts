@@ -1,5 +1,7 @@
 import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { SpanExporter } from '@opentelemetry/sdk-trace-base';
 import { AgentBasis } from '../../src/core/client';
+import { trace } from '../../src/core/context';
 import { debug, setRuntimeDebugMode } from '../../src/utils/logger';
 
 describe('client lifecycle and logger behavior', () => {
@@ -47,6 +49,25 @@ describe('client lifecycle and logger behavior', () => {
     expect(AgentBasis.isInitialized()).toBe(false);
   });
 
+  it('returns false when flush or shutdown exceed their timeout', async () => {
+    const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const stuckExporter: SpanExporter = {
+      // Never reports back, like an exporter stuck on a dead connection
+      export: () => undefined,
+      shutdown: () => new Promise<void>(() => undefined),
+    };
+    AgentBasis.init({ agentId: 'test-agent', exporters: [stuckExporter] });
+
+    trace('first', () => undefined)();
+    expect(await AgentBasis.flush(50)).toBe(false);
+    expect(String(warnSpy.mock.calls[0]?.[1])).toContain('1 span(s) still pending');
+
+    trace('second', () => undefined)();
+    expect(await AgentBasis.shutdown(50)).toBe(false);
+    expect(AgentBasis.isInitialized()).toBe(false);
+    expect(String(warnSpy.mock.calls[1]?.[1])).toContain('Shutdown timed out after 50ms');
+  });
+
   it('uses runtime debug mode before env debug mode', () => {
     const logSpy = vi.spyOn(console, 'log').mockImplementation(() => undefined);
 
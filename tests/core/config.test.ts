@@ -1,15 +1,27 @@
 import { describe, expect, it } from 'vitest';
-import { DEFAULT_CONFIG, loadConfig, validateConfig } from '../../src/core/config';
+import {
+  DEFAULT_CONFIG,
+  loadConfig,
+  resolveLogsUrl,
+  resolveMetricsUrl,
+  resolveTracesUrl,
+  validateConfig,
+} from '../../src/core/config';
 import { ENV_VARS } from '../../src/utils/env';
-import type { AgentBasisConfig } from '../../src/types';
+import type { AgentBasisConfig, ContentMode, SemanticConventions } from '../../src/types';
 
 describe('config loading and validation', () => {
   it('loads from explicit init config', () => {
     const config = loadConfig({
       apiKey: 'explicit-key',
       agentId: 'explicit-agent',
+      endpoint: 'http://localhost:4318',
+      exporters: [{ type: 'otlp' }, { type: 'file', path: '/tmp/spans.jsonl' }],
       includeContent: true,
+      contentMode: 'output-only',
       includeBinaryContent: true,
+      redaction: { detectors: ['email'] },
+      contentLimits: { maxBytes: 1024 },
       batchSize: 25,
       flushIntervalMs: 1500,
       maxRetries: 5,
@@ -19,8 +31,14 @@ describe('config loading and validation', () => {
     expect(config).toEqual({
       apiKey: 'explicit-key',
       agentId: 'explicit-agent',
+      endpoint: 'http://localhost:4318',
+      exporters: [{ type: 'otlp' }, { type: 'file', path: '/tmp/spans.jsonl' }],
       includeContent: true,
+      contentMode: 'output-only',
       includeBinaryContent: true,
+      redaction: { detectors: ['email'] },
+      contentLimits: { maxBytes: 1024 },
+      semanticConventions: 'agentbasis',
       batchSize: 25,
       flushIntervalMs: 1500,
       maxRetries: 5,
@@ -39,7 +57,72 @@ describe('config loading and validation', () => {
     expect(config.agentId).toBe('env-agent');
     expect(config.debug).toBe(true);
     expect(config.includeContent).toBe(true);
+    expect(config.contentMode).toBe('full');
     expect(config.batchSize).toBe(DEFAULT_CONFIG.batchSize);
+    expect(config.endpoint).toBe(DEFAULT_CONFIG.endpoint);
+  });
+
+  it('resolves content mode from explicit config, env var and includeContent', () => {
+    process.env[ENV_VARS.API_KEY] = 'env-key';
+    process.env[ENV_VARS.AGENT_ID] = 'env-agent';
+
+    expect(loadConfig().contentMode).toBe('none');
+    expect(loadConfig({ includeContent: true }).contentMode).toBe('full');
+
+    process.env[ENV_VARS.CONTENT_MODE] = 'metadata';
+    expect(loadConfig().contentMode).toBe('metadata');
+    expect(loadConfig({ includeContent: true }).contentMode).toBe('full');
+    expect(loadConfig({ contentMode: 'truncated' }).contentMode).toBe('truncated');
+  });
+
+  it('keeps explicitly disabled content capture off despite the env var', () => {
+    process.env[ENV_VARS.API_KEY] = 'env-key';
+    process.env[ENV_VARS.AGENT_ID] = 'env-agent';
+    process.env[ENV_VARS.CONTENT_MODE] = 'full';
+
+    expect(loadConfig({ includeContent: false }).contentMode).toBe('none');
+    expect(loadConfig({ includeContent: true, contentMode: 'metadata' }).contentMode).toBe(
+      'metadata'
+    );
+  });
+
+  it('resolves semantic conventions from explicit config and env var', () => {
+    process.env[ENV_VARS.API_KEY] = 'env-key';
+    process.env[ENV_VARS.AGENT_ID] = 'env-agent';
+
+    expect(loadConfig().semanticConventions).toBe('agentbasis');
+    process.env[ENV_VARS.SEMANTIC_CONVENTIONS] = 'both';
+    expect(loadConfig().semanticConventions).toBe('both');
+    expect(loadConfig({ semanticConventions: 'genai' }).semanticConventions).toBe('genai');
+  });
+
+  it('resolves endpoint from env var and explicit config', () => {
+    process.env[ENV_VARS.API_KEY] = 'env-key';
+    process.env[ENV_VARS.AGENT_ID] = 'env-agent';
+    process.env[ENV_VARS.ENDPOINT] = 'https://eu.api.agentbasis.co';
+
+    expect(loadConfig().endpoint).toBe('https://eu.api.agentbasis.co');
+    expect(loadConfig({ endpoint: 'http://collector:4318' }).endpoint).toBe(
+      'http://collector:4318'
+    );
+  });
+
+  it('builds OTLP traces URLs from endpoints', () => {
+    expect(resolveTracesUrl('https://api.agentbasis.co')).toBe(
+      'https://api.agentbasis.co/v1/traces'
+    );
+    expect(resolveTracesUrl('http://localhost:4318/')).toBe('http://localhost:4318/v1/traces');
+    expect(resolveTracesUrl('https://otel.internal/custom/v1/traces')).toBe(
+      'https://otel.internal/custom/v1/traces'
+    );
+  });
+
+  it('builds OTLP logs URLs from endpoints', () => {
+    expect(resolveLogsUrl('https://api.agentbasis.co/')).toBe('https://api.agentbasis.co/v1/logs');
+    expect(resolveLogsUrl('https://otel.internal/custom/v1/traces')).toBe(
+      'https://otel.internal/custom/v1/logs'
+    );
+    expect(resolveMetricsUrl('http://localhost:4318')).toBe('http://localhost:4318/v1/metrics');
   });
 
   it('throws when required keys are missing', () => {
@@ -48,18 +131,64 @@ describe('config loading and validation', () => {
     expect(() => loadConfig()).toThrow(ENV_VARS.AGENT_ID);
   });
 
+  it('does not require an API key without an otlp exporter', () => {
+    const config = loadConfig({
+      agentId: 'local-agent',
+      exporters: [{ type: 'console' }, { type: 'memory' }],
+    });
+
+    expect(config.apiKey).toBeUndefined();
+    expect(() => loadConfig({ agentId: 'local-agent', exporters: [{ type: 'otlp' }] })).toThrow(
+      ENV_VARS.API_KEY
+    );
+  });
+
   it('validates runtime bounds', () => {
     const base: AgentBasisConfig = {
       apiKey: 'k',
       agentId: 'a',
+      endpoint: 'https://api.agentbasis.co',
+      exporters: [{ type: 'otlp' }],
       includeContent: false,
+      contentMode: 'none',
       includeBinaryContent: false,
+      redaction: {},
+      contentLimits: {},
+      semanticConventions: 'agentbasis',
+      pricing: undefined,
       batchSize: 100,
       flushIntervalMs: 5000,
       maxRetries: 3,
       debug: false,
     };
 
+    expect(() => validateConfig({ ...base, endpoint: 'not-a-url' })).toThrow('endpoint');
+    expect(() => validateConfig({ ...base, endpoint: 'ftp://host' })).toThrow('endpoint');
+    expect(() => validateConfig({ ...base, exporters: [] })).toThrow('exporters');
+    expect(() => validateConfig({ ...base, exporters: [{ type: 'file', path: '' }] })).toThrow(
+      'path'
+    );
+    expect(() => validateConfig({ ...base, contentMode: 'everything' as ContentMode })).toThrow(
+      'contentMode'
+    );
+    expect(() =>
+      validateConfig({ ...base, semanticConventions: 'otel' as SemanticConventions })
+    ).toThrow('semanticConventions');
+    expect(() => validateConfig({ ...base, contentLimits: { maxBytes: 0 } })).toThrow(
+      'contentLimits.maxBytes'
+    );
+    expect(() =>
+      validateConfig({ ...base, contentLimits: { attributes: { 'llm.prompt': 0 } } })
+    ).toThrow('llm.prompt');
+    expect(() =>
+      validateConfig({ ...base, pricing: [{ model: 'custom', input: -1, output: 1 }] })
+    ).toThrow('custom');
+    expect(() =>
+      validateConfig({
+        ...base,
+        pricing: [{ model: 'custom', input: 1, output: 1, effectiveFrom: 'soon' }],
+      })
+    ).toThrow('effectiveFrom');
     expect(() => validateConfig({ ...base, batchSize: 0 })).toThrow('batchSize');
     expect(() => validateConfig({ ...base, flushIntervalMs: 10 })).toThrow('flushIntervalMs');
     expect(() => validateConfig({ ...base, maxRetries: -1 })).toThrow('maxRetries');
@@ -0,0 +1,119 @@
+import { ROOT_CONTEXT } from '@opentelemetry/api';
+import { afterEach, describe, expect, it } from 'vitest';
+import { AgentBasis } from '../../src/core/client';
+import { LLM_ATTRIBUTES } from '../../src/core/attributes';
+import { summarizeContent } from '../../src/core/content';
+import { setTraceContext } from '../../src/core/trace-context';
+import type { ContentMode } from '../../src/types';
+
+const messages = [
+  { role: 'system', content: 'Be brief.' },
+  { role: 'user', content: 'What is the capital of France?' },
+];
+
+async function captureLLMCall(
+  mode: ContentMode,
+  configure?: (span: ReturnType<typeof startSpan>) => void
+): Promise<Record<string, unknown>> {
+  AgentBasis.init({ agentId: 'test-agent', exporters: [{ type: 'memory' }], contentMode: mode });
+  const transport = AgentBasis.getInstance().getTransport();
+
+  const span = startSpan();
+  configure?.(span);
+  transport.endLLMSpan(span, { prompt: messages, response: { content: 'Paris.' } });
+  await AgentBasis.flush();
+
+  const [exported] = transport.getMemoryExporter()?.getFinishedSpans() ?? [];
+  return exported?.attributes ?? {};
+}
+
+function startSpan(parentContext?: Parameters<typeof setTraceContext>[0]) {
+  return AgentBasis.getInstance()
+    .getTransport()
+    .startLLMSpan('openai.chat.completions.create', 'openai', 'gpt-4o', parentContext);
+}
+
+describe('content modes', () => {
+  afterEach(async () => {
+    await AgentBasis.shutdown();
+  });
+
+  it('summarizes messages without their content', () => {
+    expect(summarizeContent('llm.prompt', messages)).toEqual({
+      'llm.prompt.message_count': 2,
+      'llm.prompt.roles': ['system', 'user'],
+      'llm.prompt.message_lengths': [9, 30],
+      'llm.prompt.length': 39,
+    });
+    expect(summarizeContent('llm.response', 'Paris.')).toEqual({ 'llm.response.length': 6 });
+  });
+
+  it('captures nothing in none mode', async () => {
+    const attributes = await captureLLMCall('none');
+
+    expect(Object.keys(attributes).filter((key) => key.startsWith('llm.prompt'))).toEqual([]);
+    expect(attributes[LLM_ATTRIBUTES.RESPONSE]).toBeUndefined();
+  });
+
+  it('captures only metadata in metadata mode', async () => {
+    const attributes = await captureLLMCall('metadata');
+
+    expect(attributes[LLM_ATTRIBUTES.PROMPT]).toBeUndefined();
+    expect(attributes['llm.prompt.roles']).toEqual(['system', 'user']);
+    expect(attributes[LLM_ATTRIBUTES.RESPONSE]).toBeUndefined();
+    expect(attributes['llm.response.length']).toBe(20);
+  });
+
+  it('captures outputs but not inputs in output-only mode', async () => {
+    const attributes = await captureLLMCall('output-only');
+
+    expect(attributes[LLM_ATTRIBUTES.PROMPT]).toBeUndefined();
+    expect(attributes['llm.prompt.message_count']).toBe(2);
+    expect(attributes[LLM_ATTRIBUTES.RESPONSE]).toBe('{"content":"Paris."}');
+  });
+
+  it('cuts content to a short preview in truncated mode', async () => {
+    AgentBasis.init({
+      agentId: 'test-agent',
+      exporters: [{ type: 'memory' }],
+      contentMode: 'truncated',
+    });
+    const transport = AgentBasis.getInstance().getTransport();
+
+    const span = startSpan();
+    transport.endLLMSpan(span, { prompt: 'x'.repeat(5000) });
+    await AgentBasis.flush();
+
+    const [exported] = transport.getMemoryExporter()?.getFinishedSpans() ?? [];
+    expect((exported?.attributes[LLM_ATTRIBUTES.PROMPT] as string).length).toBeLessThanOrEqual(
+      1024
+    );
+    expect(exported?.attributes[LLM_ATTRIBUTES.PROMPT_TRUNCATED]).toBe(true);
+  });
+
+  it('lets integrations override the global mode', async () => {
+    const attributes = await captureLLMCall('none', (span) =>
+      AgentBasis.getInstance().getTransport().setContentMode(span, 'full')
+    );
+
+    expect(attributes[LLM_ATTRIBUTES.PROMPT]).toBe(JSON.stringify(messages));
+  });
+
+  it('lets the withContext scope override integration and global modes', async () => {
+    AgentBasis.init({
+      agentId: 'test-agent',
+      exporters: [{ type: 'memory' }],
+      contentMode: 'full',
+    });
+    const transport = AgentBasis.getInstance().getTransport();
+
+    const span = startSpan(setTraceContext(ROOT_CONTEXT, { contentMode: 'none' }));
+    transport.setContentMode(span, 'full');
+    transport.endLLMSpan(span, { prompt: messages, response: { content: 'Paris.' } });
+    await AgentBasis.flush();
+
+    const [exported] = transport.getMemoryExporter()?.getFinishedSpans() ?? [];
+    expect(exported?.attributes[LLM_ATTRIBUTES.PROMPT]).toBeUndefined();
+    expect(exported?.attributes[LLM_ATTRIBUTES.RESPONSE]).toBeUndefined();
+  });
+});
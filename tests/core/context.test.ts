@@ -0,0 +1,269 @@
+import { SpanKind, SpanStatusCode } from '@opentelemetry/api';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { AgentBasis } from '../../src/core/client';
+import { trace, withContext } from '../../src/core/context';
+
+function tick(): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, 1));
+}
+
+describe('context propagation', () => {
+  afterEach(async () => {
+    await AgentBasis.shutdown();
+  });
+
+  it('nests withContext, trace() and LLM spans across awaits', async () => {
+    AgentBasis.init({ agentId: 'test-agent', exporters: [{ type: 'memory' }] });
+    const transport = AgentBasis.getInstance().getTransport();
+
+    const step = trace('retrieve-and-answer', async () => {
+      await tick();
+      const span = transport.startLLMSpan('openai.chat.completions.create', 'openai', 'gpt-4o');
+      await tick();
+      transport.endLLMSpan(span, {});
+    });
+
+    await withContext({ userId: 'u_123' }, async () => {
+      await tick();
+      await step();
+    });
+    await AgentBasis.flush();
+
+    const spans = transport.getMemoryExporter()?.getFinishedSpans() ?? [];
+    const byName = new Map(spans.map((span) => [span.name, span]));
+    const root = byName.get('context');
+    const traced = byName.get('retrieve-and-answer');
+    const llm = byName.get('openai.chat.completions.create');
+
+    expect(root?.parentSpanId).toBeUndefined();
+    expect(traced?.parentSpanId).toBe(root?.spanContext().spanId);
+    expect(llm?.parentSpanId).toBe(traced?.spanContext().spanId);
+    expect(new Set(spans.map((span) => span.spanContext().traceId)).size).toBe(1);
+  });
+
+  it('stamps withContext metadata onto every descendant span', async () => {
+    AgentBasis.init({ agentId: 'test-agent', exporters: [{ type: 'memory' }] });
+    const transport = AgentBasis.getInstance().getTransport();
+
+    await withContext({ userId: 'u_123', metadata: { tenant: 'acme' } }, async () => {
+      await withContext({ sessionId: 's_abc' }, async () => {
+        await tick();
+        transport.endLLMSpan(transport.startLLMSpan('gemini.generateContent', 'gemini', 'pro'), {});
+        transport.startSpan('langchain.tool.search').end();
+      });
+    });
+    transport.startSpan('outside').end();
+    await AgentBasis.flush();
+
+    const spans = transport.getMemoryExporter()?.getFinishedSpans() ?? [];
+    for (const name of ['gemini.generateContent', 'langchain.tool.search']) {
+      expect(spans.find((span) => span.name === name)?.attributes).toMatchObject({
+        'user.id': 'u_123',
+        'session.id': 's_abc',
+        'agentbasis.metadata.tenant': 'acme',
+      });
+    }
+    expect(spans.find((span) => span.name === 'outside')?.attributes['user.id']).toBeUndefined();
+  });
+
+  it('applies trace() kind, attributes and argument/result capture', async () => {
+    AgentBasis.init({
+      agentId: 'test-agent',
+      exporters: [{ type: 'memory' }],
+      includeContent: true,
+    });
+    const transport = AgentBasis.getInstance().getTransport();
+
+    const lookup = trace(
+      'lookup',
+      {
+        kind: SpanKind.CLIENT,
+        attributes: (id: string, limit: number) => ({ 'lookup.limit': limit }),
+        captureArgs: (id) => ({ id }),
+        captureResult: true,
+      },
+      async (id: string, limit: number) => ({ id, rows: limit })
+    );
+    const add = trace(
+      'add',
+      { attributes: { static: 'yes' }, captureArgs: true },
+      (a: number, b: number) => a + b
+    );
+
+    await expect(lookup('user@example.com', 3)).resolves.toEqual({
+      id: 'user@example.com',
+      rows: 3,
+    });
+    expect(add(1, 2)).toBe(3);
+    await AgentBasis.flush();
+
+    const spans = transport.getMemoryExporter()?.getFinishedSpans() ?? [];
+    const lookupSpan = spans.find((span) => span.name === 'lookup');
+    expect(lookupSpan?.kind).toBe(SpanKind.CLIENT);
+    expect(lookupSpan?.attributes).toMatchObject({
+      'lookup.limit': 3,
+      'agentbasis.input': '{"id":"[REDACTED:email]"}',
+      'agentbasis.output': '{"id":"[REDACTED:email]","rows":3}',
+    });
+    expect(spans.find((span) => span.name === 'add')?.attributes).toMatchObject({
+      static: 'yes',
+      'agentbasis.input': '[1,2]',
+    });
+  });
+
+  it('skips trace() capture when content is disabled and survives failing serializers', async () => {
+    AgentBasis.init({ agentId: 'test-agent', exporters: [{ type: 'memory' }] });
+    const transport = AgentBasis.getInstance().getTransport();
+    const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    const echo = trace(
+      'echo',
+      {
+        captureArgs: true,
+        captureResult: () => {
+          throw new Error('bad serializer');
+        },
+      },
+      (value: string) => value
+    );
+
+    expect(echo('secret')).toBe('secret');
+    await AgentBasis.flush();
+
+    const [span] = transport.getMemoryExporter()?.getFinishedSpans() ?? [];
+    expect(span?.attributes['agentbasis.input']).toBeUndefined();
+    expect(span?.attributes['agentbasis.output']).toBeUndefined();
+    expect(warnSpy).toHaveBeenCalled();
+    warnSpy.mockRestore();
+  });
+
+  it('records a placeholder for circular trace() arguments and results', async () => {
+    AgentBasis.init({
+      agentId: 'test-agent',
+      exporters: [{ type: 'memory' }],
+      includeContent: true,
+    });
+    const transport = AgentBasis.getInstance().getTransport();
+    const circular: Record<string, unknown> = { id: 1 };
+    circular.self = circular;
+
+    const consume = trace('consume', { captureArgs: true }, (value: unknown) => value !== null);
+    const produce = trace('produce', { captureResult: true }, () => circular);
+
+    expect(consume(circular)).toBe(true);
+    expect(produce()).toBe(circular);
+    await AgentBasis.flush();
+
+    const spans = transport.getMemoryExporter()?.getFinishedSpans() ?? [];
+    const consumed = spans.find((span) => span.name === 'consume');
+    const produced = spans.find((span) => span.name === 'produce');
+    expect(consumed?.attributes['agentbasis.input']).toBe('[unserializable]');
+    expect(consumed?.status.code).toBe(SpanStatusCode.OK);
+    expect(produced?.attributes['agentbasis.output']).toBe('[unserializable]');
+    expect(produced?.status.code).toBe(SpanStatusCode.OK);
+  });
+
+  it('keeps trace() spans open until async generators finish', async () => {
+    AgentBasis.init({
+      agentId: 'test-agent',
+      exporters: [{ type: 'memory' }],
+      includeContent: true,
+    });
+    const transport = AgentBasis.getInstance().getTransport();
+    const exporter = transport.getMemoryExporter();
+
+    const tokens = trace('tokens', { captureResult: true }, async function* (count: number) {
+      for (let i = 0; i < count; i++) {
+        await tick();
+        transport.endLLMSpan(transport.startLLMSpan('openai.chat', 'openai', 'gpt-4o'), {});
+        yield `t${i}`;
+      }
+    });
+
+    const received: string[] = [];
+    for await (const token of tokens(3)) {
+      await AgentBasis.flush();
+      expect(exporter?.getFinishedSpans().some((span) => span.name === 'tokens')).toBe(false);
+      received.push(token);
+    }
+    await AgentBasis.flush();
+
+    const spans = exporter?.getFinishedSpans() ?? [];
+    const span = spans.find((finished) => finished.name === 'tokens');
+    expect(received).toEqual(['t0', 't1', 't2']);
+    expect(span?.attributes).toMatchObject({
+      'agentbasis.stream.item_count': 3,
+      'agentbasis.output': '["t0","t1","t2"]',
+    });
+    expect(span?.attributes['agentbasis.stream.time_to_first_item_ms']).toBeGreaterThanOrEqual(0);
+    expect(span?.attributes['agentbasis.stream.returned_early']).toBeUndefined();
+    for (const llm of spans.filter((finished) => finished.name === 'openai.chat')) {
+      expect(llm.parentSpanId).toBe(span?.spanContext().spanId);
+    }
+  });
+
+  it('ends trace() stream spans on early return and on errors', async () => {
+    AgentBasis.init({ agentId: 'test-agent', exporters: [{ type: 'memory' }] });
+    const transport = AgentBasis.getInstance().getTransport();
+
+    const numbers = trace('numbers', function* () {
+      yield 1;
+      yield 2;
+      yield 3;
+    });
+    const failing = trace('failing', async function* () {
+      yield 1;
+      throw new Error('stream broke');
+    });
+
+    for (const value of numbers()) {
+      if (value === 2) {
+        break;
+      }
+    }
+    await expect(async () => {
+      for await (const _ of failing()) {
+        // consume
+      }
+    }).rejects.toThrow('stream broke');
+    await AgentBasis.flush();
+
+    const spans = transport.getMemoryExporter()?.getFinishedSpans() ?? [];
+    expect(spans.find((span) => span.name === 'numbers')?.attributes).toMatchObject({
+      'agentbasis.stream.item_count': 2,
+      'agentbasis.stream.returned_early': true,
+    });
+    const failed = spans.find((span) => span.name === 'failing');
+    expect(failed?.status.message).toBe('stream broke');
+    expect(failed?.attributes['agentbasis.stream.item_count']).toBe(1);
+  });
+
+  it('proxies async iterables resolved by trace() functions', async () => {
+    AgentBasis.init({ agentId: 'test-agent', exporters: [{ type: 'memory' }] });
+    const transport = AgentBasis.getInstance().getTransport();
+
+    class ChunkStream {
+      readonly id = 'stream_1';
+      async *[Symbol.asyncIterator](): AsyncGenerator<string> {
+        yield 'a';
+        yield 'b';
+      }
+      describe(): string {
+        return this.id;
+      }
+    }
+    const open = trace('open-stream', async () => new ChunkStream());
+
+    const stream = await open();
+    expect(stream.describe()).toBe('stream_1');
+    const chunks: string[] = [];
+    for await (const chunk of stream) {
+      chunks.push(chunk);
+    }
+    await AgentBasis.flush();
+
+    expect(chunks).toEqual(['a', 'b']);
+    const [span] = transport.getMemoryExporter()?.getFinishedSpans() ?? [];
+    expect(span?.attributes['agentbasis.stream.item_count']).toBe(2);
+  });
+});
@@ -0,0 +1,109 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { AgentBasis, recordLLMCall, toolSpan } from '../../src/core/client';
+import { applyConventions, genAIOperationName, readLLMAttribute } from '../../src/core/conventions';
+import type { SemanticConventions } from '../../src/types';
+
+function initWith(semanticConventions: SemanticConventions): void {
+  AgentBasis.init({
+    agentId: 'test-agent',
+    exporters: [{ type: 'memory' }],
+    contentMode: 'full',
+    semanticConventions,
+  });
+}
+
+async function finishedSpan(name: string) {
+  await AgentBasis.flush();
+  return AgentBasis.getInstance()
+    .getTransport()
+    .getMemoryExporter()
+    ?.getFinishedSpans()
+    .find((span) => span.name === name);
+}
+
+describe('GenAI semantic conventions', () => {
+  afterEach(async () => {
+    await AgentBasis.shutdown();
+  });
+
+  it('keeps AgentBasis attributes by default', async () => {
+    initWith('agentbasis');
+    recordLLMCall({ provider: 'openai', model: 'gpt-4o', inputTokens: 10, prompt: 'hi' });
+
+    const span = await finishedSpan('openai.llm_call');
+    expect(span?.attributes).toMatchObject({
+      'llm.provider': 'openai',
+      'llm.usage.input_tokens': 10,
+      'llm.prompt': 'hi',
+    });
+    expect(span?.attributes['gen_ai.system']).toBeUndefined();
+    expect(span?.events).toHaveLength(0);
+  });
+
+  it('emits gen_ai attributes and content events in genai mode', async () => {
+    initWith('genai');
+    recordLLMCall({
+      name: 'gemini.generateContent',
+      provider: 'gemini',
+      model: 'gemini-2.5-flash',
+      inputTokens: 12,
+      outputTokens: 4,
+      prompt: 'What is 2 + 2?',
+      response: '4',
+    });
+
+    const span = await finishedSpan('gemini.generateContent');
+    expect(span?.attributes).toMatchObject({
+      'gen_ai.system': 'gcp.gemini',
+      'gen_ai.operation.name': 'chat',
+      'gen_ai.request.model': 'gemini-2.5-flash',
+      'gen_ai.usage.input_tokens': 12,
+      'gen_ai.usage.output_tokens': 4,
+      'agentbasis.agent_id': 'test-agent',
+    });
+    expect(span?.attributes['llm.provider']).toBeUndefined();
+    expect(span?.attributes['llm.prompt']).toBeUndefined();
+    expect(span?.events.map((event) => [event.name, event.attributes])).toEqual([
+      ['gen_ai.content.prompt', { 'gen_ai.prompt': 'What is 2 + 2?' }],
+      ['gen_ai.content.completion', { 'gen_ai.completion': '4' }],
+    ]);
+  });
+
+  it('emits both sets of names in both mode and still rolls up usage', async () => {
+    initWith('both');
+    await toolSpan('lookup', () => {
+      recordLLMCall({ provider: 'anthropic', model: 'claude-3-5-haiku', inputTokens: 7 });
+    });
+
+    const llm = await finishedSpan('anthropic.llm_call');
+    expect(llm?.attributes).toMatchObject({
+      'llm.provider': 'anthropic',
+      'gen_ai.system': 'anthropic',
+      'llm.usage.input_tokens': 7,
+      'gen_ai.usage.input_tokens': 7,
+    });
+    expect((await finishedSpan('lookup'))?.attributes['agentbasis.rollup.input_tokens']).toBe(7);
+  });
+
+  it('maps and reads attributes', () => {
+    const attributes = applyConventions(
+      { 'llm.provider': 'gemini', 'llm.model': 'gemini-2.0-flash', 'llm.cost.usd': 0.01 },
+      'genai'
+    );
+
+    expect(attributes).toEqual({
+      'gen_ai.system': 'gcp.gemini',
+      'gen_ai.request.model': 'gemini-2.0-flash',
+      'llm.cost.usd': 0.01,
+    });
+    expect(readLLMAttribute(attributes, 'llm.provider')).toBe('gemini');
+    expect(readLLMAttribute(attributes, 'llm.cost.usd')).toBe(0.01);
+  });
+
+  it('infers the operation name from the span name', () => {
+    expect(genAIOperationName('openai.chat.completions.create')).toBe('chat');
+    expect(genAIOperationName('openai.completions.create')).toBe('text_completion');
+    expect(genAIOperationName('langchain.llm')).toBe('text_completion');
+    expect(genAIOperationName('gemini.embedContent')).toBe('embeddings');
+  });
+});
@@ -0,0 +1,131 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { AgentBasis } from '../../src/core/client';
+import { traced, tracedClass } from '../../src/core/decorators';
+
+function finishedSpans(): Array<{ name: string; attributes: Record<string, unknown> }> {
+  return AgentBasis.getInstance().getTransport().getMemoryExporter()?.getFinishedSpans() ?? [];
+}
+
+describe('tracing decorators', () => {
+  afterEach(async () => {
+    await AgentBasis.shutdown();
+  });
+
+  it('traces sync, async and generator methods with standard decorators', async () => {
+    AgentBasis.init({
+      agentId: 'test-agent',
+      exporters: [{ type: 'memory' }],
+      includeContent: true,
+    });
+
+    class Planner {
+      private readonly prefix = 'plan';
+
+      @traced()
+      label(goal: string): string {
+        return `${this.prefix}:${goal}`;
+      }
+
+      @traced({ name: 'planner.fetch', captureResult: true })
+      async fetch(goal: string): Promise<string> {
+        await Promise.resolve();
+        return this.label(goal);
+      }
+
+      @traced()
+      *steps(): Generator<number> {
+        yield 1;
+        yield 2;
+      }
+    }
+
+    const planner = new Planner();
+    expect(planner.label('a')).toBe('plan:a');
+    await expect(planner.fetch('b')).resolves.toBe('plan:b');
+    expect([...planner.steps()]).toEqual([1, 2]);
+    await AgentBasis.flush();
+
+    const spans = finishedSpans();
+    expect(spans.map((span) => span.name).sort()).toEqual([
+      'Planner.label',
+      'Planner.label',
+      'Planner.steps',
+      'planner.fetch',
+    ]);
+    expect(
+      spans.find((span) => span.name === 'planner.fetch')?.attributes['agentbasis.output']
+    ).toBe('plan:b');
+    expect(spans.find((span) => span.name === 'Planner.steps')?.attributes).toMatchObject({
+      'agentbasis.stream.item_count': 2,
+    });
+  });
+
+  it('traces every method of a class without double-wrapping decorated ones', async () => {
+    AgentBasis.init({ agentId: 'test-agent', exporters: [{ type: 'memory' }] });
+
+    @tracedClass({ exclude: ['skip'] })
+    class Service {
+      static create(): Service {
+        return new Service();
+      }
+
+      @traced('custom.run')
+      run(): string {
+        return this.helper();
+      }
+
+      helper(): string {
+        return 'done';
+      }
+
+      skip(): string {
+        return 'untraced';
+      }
+    }
+
+    expect(Service.create().run()).toBe('done');
+    expect(new Service().skip()).toBe('untraced');
+    await AgentBasis.flush();
+
+    expect(
+      finishedSpans()
+        .map((span) => span.name)
+        .sort()
+    ).toEqual(['Service.create', 'Service.helper', 'custom.run']);
+  });
+
+  it('supports legacy experimentalDecorators call signatures', async () => {
+    AgentBasis.init({ agentId: 'test-agent', exporters: [{ type: 'memory' }] });
+
+    class Legacy {
+      greet(name: string): string {
+        return `hi ${name}`;
+      }
+
+      other(): number {
+        return 1;
+      }
+    }
+    const descriptor = Object.getOwnPropertyDescriptor(Legacy.prototype, 'greet');
+    if (!descriptor) {
+      throw new Error('missing descriptor');
+    }
+    Object.defineProperty(
+      Legacy.prototype,
+      'greet',
+      traced()(Legacy.prototype, 'greet', descriptor)
+    );
+    tracedClass()(Legacy);
+
+    const instance = new Legacy();
+    expect(instance.greet('ada')).toBe('hi ada');
+    expect(instance.other()).toBe(1);
+    await AgentBasis.flush();
+
+    expect(
+      finishedSpans()
+        .map((span) => span.name)
+        .sort()
+    ).toEqual(['Legacy.greet', 'Legacy.other']);
+  });
+});
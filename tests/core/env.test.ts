@@ -42,12 +42,14 @@ describe('env utilities', () => {
   it('exposes combined AgentBasis env vars', () => {
     process.env[ENV_VARS.API_KEY] = 'env-api-key';
     process.env[ENV_VARS.AGENT_ID] = 'env-agent-id';
+    process.env[ENV_VARS.ENDPOINT] = 'https://eu.api.agentbasis.co';
     process.env[ENV_VARS.DEBUG] = 'true';
     process.env[ENV_VARS.INCLUDE_CONTENT] = '1';
 
     expect(getAgentBasisEnvVars()).toEqual({
       apiKey: 'env-api-key',
       agentId: 'env-agent-id',
+      endpoint: 'https://eu.api.agentbasis.co',
       debug: true,
       includeContent: true,
     });
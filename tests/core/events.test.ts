@@ -0,0 +1,97 @@
+import { context, SpanStatusCode } from '@opentelemetry/api';
+import { SeverityNumber } from '@opentelemetry/api-logs';
+import { afterEach, describe, expect, it } from 'vitest';
+import { AgentBasis, captureError, log } from '../../src/core/client';
+import { trace } from '../../src/core/context';
+import { setTraceContext } from '../../src/core/trace-context';
+
+function transport(): ReturnType<AgentBasis['getTransport']> {
+  return AgentBasis.getInstance().getTransport();
+}
+
+describe('log and error events', () => {
+  afterEach(async () => {
+    await AgentBasis.shutdown();
+  });
+
+  it('attaches logs and handled errors to the active span', async () => {
+    AgentBasis.init({ agentId: 'test-agent', exporters: [{ type: 'memory' }] });
+
+    await trace('plan', () => {
+      log('info', 'Falling back', { contact: 'jane@example.com' });
+      captureError(new TypeError('profile missing'), { attempt: 2 });
+    })();
+    await AgentBasis.flush();
+
+    const [span] = transport().getMemoryExporter()?.getFinishedSpans() ?? [];
+    expect(span?.status.code).toBe(SpanStatusCode.OK);
+    expect(span?.events.map((event) => event.name)).toEqual(['log', 'exception']);
+    expect(span?.events[0]?.attributes).toEqual({
+      'log.level': 'info',
+      'log.message': 'Falling back',
+      'log.data': '{"contact":"[REDACTED:email]"}',
+    });
+    expect(span?.events[1]?.attributes).toMatchObject({
+      'exception.type': 'TypeError',
+      'exception.message': 'profile missing',
+      'exception.handled': true,
+      'agentbasis.error.extra': '{"attempt":2}',
+    });
+    expect(transport().getMemoryLogExporter()?.getFinishedLogRecords()).toHaveLength(0);
+  });
+
+  it('emits log records with the trace context when no span is active', async () => {
+    AgentBasis.init({ agentId: 'test-agent', exporters: [{ type: 'memory' }] });
+
+    log('warn', 'Queue is backing up', { depth: 42 });
+    context.with(setTraceContext(context.active(), { userId: 'u_1' }), () => {
+      captureError('boom');
+    });
+    await AgentBasis.flush();
+
+    const records = transport().getMemoryLogExporter()?.getFinishedLogRecords() ?? [];
+    expect(records).toHaveLength(2);
+    expect(records[0]).toMatchObject({
+      severityNumber: SeverityNumber.WARN,
+      severityText: 'WARN',
+      body: 'Queue is backing up',
+      attributes: { 'log.level': 'warn', 'log.data': '{"depth":42}' },
+    });
+    expect(records[1]).toMatchObject({
+      severityNumber: SeverityNumber.ERROR,
+      body: 'boom',
+      attributes: { 'user.id': 'u_1', 'exception.type': 'Error', 'exception.handled': true },
+    });
+  });
+
+  it('emits log records for logs made after the active span ended', async () => {
+    AgentBasis.init({ agentId: 'test-agent', exporters: [{ type: 'memory' }] });
+
+    let late: Promise<void> | undefined;
+    trace('plan', () => {
+      late = new Promise((resolve) =>
+        setTimeout(() => {
+          log('info', 'Still working');
+          resolve();
+        }, 1)
+      );
+    })();
+    await late;
+    await AgentBasis.flush();
+
+    const [span] = transport().getMemoryExporter()?.getFinishedSpans() ?? [];
+    const records = transport().getMemoryLogExporter()?.getFinishedLogRecords() ?? [];
+    expect(span?.events).toEqual([]);
+    expect(records).toHaveLength(1);
+    expect(records[0]).toMatchObject({
+      body: 'Still working',
+      attributes: { 'log.level': 'info' },
+    });
+    expect(records[0]?.spanContext?.spanId).toBe(span?.spanContext().spanId);
+  });
+
+  it('is a no-op when not initialized', () => {
+    expect(() => log('debug', 'ignored')).not.toThrow();
+    expect(() => captureError(new Error('ignored'))).not.toThrow();
+  });
+});
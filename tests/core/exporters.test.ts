@@ -0,0 +1,172 @@
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ExportResultCode, type ExportResult } from '@opentelemetry/core';
+import {
+  BasicTracerProvider,
+  InMemorySpanExporter,
+  SimpleSpanProcessor,
+  type ReadableSpan,
+} from '@opentelemetry/sdk-trace-base';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { AgentBasis } from '../../src/core/client';
+import { trace } from '../../src/core/context';
+import {
+  parseRetryAfter,
+  RetryingOTLPTraceExporter,
+  type SerializedSpan,
+} from '../../src/core/exporters';
+import { createErrorResponse, createMockFetch, createSuccessResponse } from '../mocks/http';
+
+function createFinishedSpans(): ReadableSpan[] {
+  const memory = new InMemorySpanExporter();
+  const provider = new BasicTracerProvider();
+  provider.addSpanProcessor(new SimpleSpanProcessor(memory));
+  provider.getTracer('test').startSpan('exported').end();
+  return memory.getFinishedSpans();
+}
+
+function exportSpans(exporter: RetryingOTLPTraceExporter): Promise<ExportResult> {
+  return new Promise((resolve) => exporter.export(createFinishedSpans(), resolve));
+}
+
+describe('pluggable exporters', () => {
+  let tempDir: string | undefined;
+
+  afterEach(async () => {
+    await AgentBasis.shutdown();
+    if (tempDir) {
+      await rm(tempDir, { recursive: true, force: true });
+      tempDir = undefined;
+    }
+  });
+
+  it('collects spans in memory without an API key', async () => {
+    AgentBasis.init({ agentId: 'test-agent', exporters: [{ type: 'memory' }] });
+
+    const work = trace('work', (value: number) => value * 2);
+    expect(work(21)).toBe(42);
+    await AgentBasis.flush();
+
+    const spans = AgentBasis.getInstance().getTransport().getMemoryExporter()?.getFinishedSpans();
+    expect(spans?.map((span) => span.name)).toEqual(['work']);
+  });
+
+  it('writes spans as JSON lines to every configured file exporter', async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'agentbasis-'));
+    const first = join(tempDir, 'a', 'spans.jsonl');
+    const second = join(tempDir, 'b.jsonl');
+
+    AgentBasis.init({
+      agentId: 'test-agent',
+      exporters: [
+        { type: 'file', path: first },
+        { type: 'file', path: second },
+      ],
+    });
+
+    trace('first', () => undefined)();
+    trace('second', () => undefined)();
+    await AgentBasis.flush();
+
+    for (const path of [first, second]) {
+      const lines = (await readFile(path, 'utf8')).trim().split('\n');
+      const spans = lines.map((line) => JSON.parse(line) as SerializedSpan);
+
+      expect(spans.map((span) => span.name)).toEqual(['first', 'second']);
+      expect(spans[0]?.attributes['agentbasis.agent_id']).toBe('test-agent');
+      expect(spans[0]?.traceId).toMatch(/^[0-9a-f]{32}$/);
+    }
+  });
+});
+
+describe('OTLP export retries', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  const createExporter = (maxRetries: number, initialBackoffMs = 1): RetryingOTLPTraceExporter =>
+    new RetryingOTLPTraceExporter(
+      { url: 'http://collector.test/v1/traces' },
+      { maxRetries, initialBackoffMs, maxBackoffMs: initialBackoffMs }
+    );
+
+  it('retries 5xx responses until the export succeeds', async () => {
+    const fetchMock = createMockFetch([
+      createErrorResponse(503, 'unavailable'),
+      createErrorResponse(502, 'bad gateway'),
+      createSuccessResponse(),
+    ]);
+    vi.stubGlobal('fetch', fetchMock);
+
+    const result = await exportSpans(createExporter(3));
+
+    expect(result.code).toBe(ExportResultCode.SUCCESS);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it('waits for Retry-After instead of the computed backoff', async () => {
+    const fetchMock = createMockFetch([
+      createErrorResponse(429, 'slow down', { 'Retry-After': '0' }),
+      createSuccessResponse(),
+    ]);
+    vi.stubGlobal('fetch', fetchMock);
+
+    // A 60s backoff would time the test out if Retry-After were ignored
+    const result = await exportSpans(createExporter(1, 60000));
+
+    expect(result.code).toBe(ExportResultCode.SUCCESS);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('caps Retry-After at maxBackoffMs', async () => {
+    const fetchMock = createMockFetch([
+      createErrorResponse(429, 'slow down', { 'Retry-After': '3600' }),
+      createSuccessResponse(),
+    ]);
+    vi.stubGlobal('fetch', fetchMock);
+
+    // An uncapped one-hour Retry-After would time the test out
+    const result = await exportSpans(createExporter(1, 10));
+
+    expect(result.code).toBe(ExportResultCode.SUCCESS);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('logs once and fails after exhausting maxRetries', async () => {
+    const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    const fetchMock = createMockFetch([
+      createErrorResponse(500, 'boom'),
+      createErrorResponse(500, 'boom'),
+      createErrorResponse(500, 'boom'),
+    ]);
+    vi.stubGlobal('fetch', fetchMock);
+
+    const result = await exportSpans(createExporter(2));
+
+    expect(result.code).toBe(ExportResultCode.FAILED);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    expect(errorSpy).toHaveBeenCalledTimes(1);
+    expect(String(errorSpy.mock.calls[0]?.[1])).toContain('after 3 attempt(s)');
+  });
+
+  it('does not retry non-retryable client errors', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    const fetchMock = createMockFetch([createErrorResponse(400, 'bad request')]);
+    vi.stubGlobal('fetch', fetchMock);
+
+    const result = await exportSpans(createExporter(3));
+
+    expect(result.code).toBe(ExportResultCode.FAILED);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('parses Retry-After seconds and HTTP dates', () => {
+    const now = Date.parse('2024-01-01T00:00:00Z');
+    expect(parseRetryAfter('5', now)).toBe(5000);
+    expect(parseRetryAfter('Mon, 01 Jan 2024 00:00:10 GMT', now)).toBe(10000);
+    expect(parseRetryAfter('garbage', now)).toBeUndefined();
+    expect(parseRetryAfter(null, now)).toBeUndefined();
+  });
+});
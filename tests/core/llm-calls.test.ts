@@ -0,0 +1,182 @@
+import { SpanKind, SpanStatusCode } from '@opentelemetry/api';
+import { hrTimeToMilliseconds } from '@opentelemetry/core';
+import type { ReadableSpan } from '@opentelemetry/sdk-trace-base';
+import { afterEach, describe, expect, it } from 'vitest';
+import { AgentBasis, recordLLMCall, startLLMCall } from '../../src/core/client';
+import { withContext } from '../../src/core/context';
+import type { LLMCallEvent } from '../../src/types';
+
+function finishedSpans(): ReadableSpan[] {
+  return AgentBasis.getInstance().getTransport().getMemoryExporter()?.getFinishedSpans() ?? [];
+}
+
+describe('manual LLM call reporting', () => {
+  afterEach(async () => {
+    await AgentBasis.shutdown();
+  });
+
+  it('records a completed call event with its timing, usage and context', async () => {
+    AgentBasis.init({
+      agentId: 'test-agent',
+      exporters: [{ type: 'memory' }],
+      includeContent: true,
+    });
+
+    const event: LLMCallEvent = {
+      type: 'llm_call',
+      timestamp: '2026-01-01T00:00:00.000Z',
+      agentId: 'test-agent',
+      context: { userId: 'u_1' },
+      provider: 'other',
+      model: 'llama-3-70b',
+      durationMs: 840,
+      inputTokens: 512,
+      outputTokens: 128,
+      totalTokens: 640,
+      prompt: 'hello',
+      response: 'hi',
+      streamed: false,
+      statusCode: 200,
+    };
+    recordLLMCall(event);
+    await AgentBasis.flush();
+
+    const [span] = finishedSpans();
+    expect(span?.name).toBe('other.llm_call');
+    expect(span?.kind).toBe(SpanKind.CLIENT);
+    expect(span?.status.code).toBe(SpanStatusCode.OK);
+    expect(hrTimeToMilliseconds(span!.startTime)).toBe(Date.parse(event.timestamp));
+    expect(hrTimeToMilliseconds(span!.duration)).toBe(840);
+    expect(span?.attributes).toMatchObject({
+      'llm.provider': 'other',
+      'llm.model': 'llama-3-70b',
+      'llm.usage.input_tokens': 512,
+      'llm.usage.output_tokens': 128,
+      'llm.usage.total_tokens': 640,
+      'llm.prompt': 'hello',
+      'llm.response': 'hi',
+      'llm.streamed': false,
+      'http.response.status_code': 200,
+      'user.id': 'u_1',
+    });
+  });
+
+  it('ends a started call once and records failures', async () => {
+    AgentBasis.init({ agentId: 'test-agent', exporters: [{ type: 'memory' }] });
+
+    const call = startLLMCall({ provider: 'vllm', model: 'mistral', name: 'vllm.generate' });
+    call.end({ streamed: true, statusCode: 503, error: 'overloaded' });
+    call.end({ outputTokens: 1 });
+    await AgentBasis.flush();
+
+    const spans = finishedSpans();
+    expect(spans).toHaveLength(1);
+    expect(spans[0]?.name).toBe('vllm.generate');
+    expect(spans[0]?.status).toMatchObject({ code: SpanStatusCode.ERROR, message: 'overloaded' });
+    expect(spans[0]?.attributes).toMatchObject({
+      'llm.streamed': true,
+      'http.response.status_code': 503,
+    });
+    expect(spans[0]?.attributes['llm.usage.output_tokens']).toBeUndefined();
+  });
+
+  it('records request parameters', async () => {
+    AgentBasis.init({
+      agentId: 'test-agent',
+      exporters: [{ type: 'memory' }],
+      semanticConventions: 'both',
+    });
+
+    recordLLMCall({
+      provider: 'vllm',
+      model: 'mistral',
+      params: {
+        temperature: 0.2,
+        maxTokens: 256,
+        stopSequences: ['###'],
+        responseFormat: 'json',
+        toolChoice: 'tool:search',
+        toolCount: 2,
+      },
+    });
+    await AgentBasis.flush();
+
+    const attributes = finishedSpans()[0]?.attributes;
+    expect(attributes).toMatchObject({
+      'llm.request.temperature': 0.2,
+      'gen_ai.request.temperature': 0.2,
+      'llm.request.max_tokens': 256,
+      'gen_ai.request.max_tokens': 256,
+      'llm.request.stop_sequences': ['###'],
+      'llm.request.response_format': 'json',
+      'llm.request.tool_choice': 'tool:search',
+      'llm.request.tool_count': 2,
+    });
+    expect(attributes?.['llm.request.top_p']).toBeUndefined();
+  });
+
+  it('records response metadata regardless of the content mode', async () => {
+    AgentBasis.init({
+      agentId: 'test-agent',
+      exporters: [{ type: 'memory' }],
+      semanticConventions: 'genai',
+    });
+
+    startLLMCall({ provider: 'vllm', model: 'mistral' }).end({
+      response: 'cut off',
+      finishReasons: ['length'],
+      responseId: 'cmpl-1',
+      responseModel: 'mistral-7b-instruct-v0.3',
+      systemFingerprint: 'fp_1',
+    });
+    await AgentBasis.flush();
+
+    const attributes = finishedSpans()[0]?.attributes;
+    expect(attributes).toMatchObject({
+      'gen_ai.response.finish_reasons': ['length'],
+      'gen_ai.response.id': 'cmpl-1',
+      'gen_ai.response.model': 'mistral-7b-instruct-v0.3',
+      'gen_ai.openai.response.system_fingerprint': 'fp_1',
+    });
+    expect(attributes?.['llm.response']).toBeUndefined();
+  });
+
+  it('records tool calls as events, with arguments only when content is captured', async () => {
+    AgentBasis.init({ agentId: 'test-agent', exporters: [{ type: 'memory' }] });
+
+    const toolCalls = [
+      { name: 'search', id: 'call_1', arguments: '{"query":"café"}' },
+      { name: 'lookup', arguments: { id: 7 } },
+    ];
+    recordLLMCall({ provider: 'vllm', model: 'mistral', toolCalls });
+    await withContext({ contentMode: 'full' }, () => {
+      recordLLMCall({ provider: 'vllm', model: 'mistral', name: 'captured', toolCalls });
+    });
+    await AgentBasis.flush();
+
+    const events = (name: string) =>
+      finishedSpans()
+        .find((span) => span.name === name)
+        ?.events.map((event) => [event.name, event.attributes]);
+    expect(events('vllm.llm_call')).toEqual([
+      [
+        'llm.tool_call',
+        {
+          'llm.tool_call.name': 'search',
+          'llm.tool_call.id': 'call_1',
+          'llm.tool_call.arguments_size': 17,
+        },
+      ],
+      ['llm.tool_call', { 'llm.tool_call.name': 'lookup', 'llm.tool_call.arguments_size': 8 }],
+    ]);
+    expect(events('captured')?.map(([, attributes]) => attributes)).toMatchObject([
+      { 'llm.tool_call.arguments': '{"query":"café"}' },
+      { 'llm.tool_call.arguments': '{"id":7}' },
+    ]);
+  });
+
+  it('is a no-op when not initialized', () => {
+    expect(() => recordLLMCall({ provider: 'vllm', model: 'mistral' })).not.toThrow();
+    expect(() => startLLMCall({ provider: 'vllm', model: 'mistral' }).end()).not.toThrow();
+  });
+});
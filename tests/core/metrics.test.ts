@@ -0,0 +1,80 @@
+import type { Attributes } from '@opentelemetry/api';
+import type { DataPoint, Histogram, MetricData } from '@opentelemetry/sdk-metrics';
+import { afterEach, describe, expect, it } from 'vitest';
+import { AgentBasis, recordLLMCall, startLLMCall } from '../../src/core/client';
+import { METRIC_NAMES } from '../../src/core/metrics';
+
+async function collectMetrics(): Promise<Map<string, MetricData>> {
+  await AgentBasis.flush();
+  const exporter = AgentBasis.getInstance().getTransport().getMemoryMetricExporter();
+  const metrics = new Map<string, MetricData>();
+  for (const resourceMetrics of exporter?.getMetrics() ?? []) {
+    for (const scopeMetrics of resourceMetrics.scopeMetrics) {
+      for (const metric of scopeMetrics.metrics) {
+        metrics.set(metric.descriptor.name, metric);
+      }
+    }
+  }
+  return metrics;
+}
+
+function pointFor<T>(metric: MetricData | undefined, status: string): DataPoint<T> | undefined {
+  const points = (metric?.dataPoints ?? []) as Array<DataPoint<T>>;
+  return points.find(
+    (point: { attributes: Attributes }) => point.attributes['llm.status'] === status
+  );
+}
+
+describe('LLM metrics', () => {
+  afterEach(async () => {
+    await AgentBasis.shutdown();
+  });
+
+  it('records tokens, duration, time to first token and errors per status', async () => {
+    AgentBasis.init({ agentId: 'test-agent', exporters: [{ type: 'memory' }] });
+
+    recordLLMCall({
+      provider: 'vllm',
+      model: 'llama-3-70b',
+      durationMs: 800,
+      inputTokens: 500,
+      outputTokens: 100,
+      timeToFirstTokenMs: 120,
+    });
+    recordLLMCall({
+      provider: 'vllm',
+      model: 'llama-3-70b',
+      durationMs: 400,
+      inputTokens: 300,
+      outputTokens: 50,
+    });
+    const failed = startLLMCall({ provider: 'vllm', model: 'llama-3-70b' });
+    failed.markFirstToken();
+    failed.end({ error: 'overloaded' });
+
+    const metrics = await collectMetrics();
+    const ok = pointFor<number>(metrics.get(METRIC_NAMES.REQUESTS), 'ok');
+    expect(ok?.value).toBe(2);
+    expect(ok?.attributes).toEqual({
+      'llm.provider': 'vllm',
+      'llm.model': 'llama-3-70b',
+      'agentbasis.agent_id': 'test-agent',
+      'llm.status': 'ok',
+    });
+    expect(pointFor<number>(metrics.get(METRIC_NAMES.INPUT_TOKENS), 'ok')?.value).toBe(800);
+    expect(pointFor<number>(metrics.get(METRIC_NAMES.OUTPUT_TOKENS), 'ok')?.value).toBe(150);
+    expect(pointFor<Histogram>(metrics.get(METRIC_NAMES.DURATION), 'ok')?.value).toMatchObject({
+      count: 2,
+      sum: 1200,
+    });
+    expect(
+      pointFor<Histogram>(metrics.get(METRIC_NAMES.TIME_TO_FIRST_TOKEN), 'ok')?.value
+    ).toMatchObject({ count: 1, sum: 120 });
+
+    expect(pointFor<number>(metrics.get(METRIC_NAMES.ERRORS), 'error')?.value).toBe(1);
+    expect(
+      pointFor<Histogram>(metrics.get(METRIC_NAMES.TIME_TO_FIRST_TOKEN), 'error')?.value
+    ).toMatchObject({ count: 1 });
+    expect(metrics.get(METRIC_NAMES.ERRORS)?.dataPoints).toHaveLength(1);
+  });
+});
@@ -0,0 +1,76 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { AgentBasis, recordLLMCall, registerModelPrice } from '../../src/core/client';
+import { clearRegisteredModelPrices, estimateCost, PricingTable } from '../../src/core/pricing';
+
+describe('model pricing', () => {
+  afterEach(async () => {
+    clearRegisteredModelPrices();
+    await AgentBasis.shutdown();
+  });
+
+  it('matches versioned model names and picks the price in effect', () => {
+    const table = new PricingTable();
+
+    expect(table.lookup('openai', 'gpt-4o-2024-08-06')).toMatchObject({ input: 2.5, output: 10 });
+    expect(table.lookup('openai', 'gpt-4o', Date.parse('2024-06-01'))).toMatchObject({
+      input: 5,
+      output: 15,
+    });
+    expect(table.lookup('openai', 'gpt-4o-mini')).toMatchObject({ input: 0.15 });
+    expect(table.lookup('anthropic', 'claude-3-5-sonnet-20241022')).toMatchObject({ input: 3 });
+    expect(table.lookup('gemini', 'models/gemini-2.5-flash-lite')).toMatchObject({ input: 0.1 });
+    expect(table.lookup('openai', 'gpt-4oo')).toBeUndefined();
+    expect(table.lookup('vllm', 'llama-3-70b')).toBeUndefined();
+  });
+
+  it('bills cached input and reasoning tokens at their own rates', () => {
+    const cost = estimateCost(
+      { input: 2, cachedInput: 0.5, output: 8, reasoning: 10 },
+      {
+        inputTokens: 1_000_000,
+        cachedInputTokens: 400_000,
+        outputTokens: 500_000,
+        reasoningTokens: 100_000,
+      }
+    );
+
+    // 600k uncached input, 400k cached, 400k output, 100k reasoning
+    expect(cost).toBeCloseTo(1.2 + 0.2 + 3.2 + 1);
+    expect(estimateCost({ input: 1, output: 1 }, {})).toBeUndefined();
+  });
+
+  it('prefers config prices over registered ones over the built-in table', () => {
+    registerModelPrice({ model: 'gpt-4o', input: 1, output: 1 });
+    registerModelPrice({ provider: 'vllm', model: 'llama-3-70b', input: 0.2, output: 0.4 });
+
+    const table = new PricingTable([{ model: 'gpt-4o', input: 3, output: 3 }]);
+    expect(table.lookup('openai', 'gpt-4o-2024-08-06')).toMatchObject({ input: 3 });
+    expect(new PricingTable().lookup('openai', 'gpt-4o')).toMatchObject({ input: 1 });
+    expect(new PricingTable().lookup('vllm', 'llama-3-70b-instruct')).toMatchObject({
+      input: 0.2,
+    });
+    expect(new PricingTable().lookup('together', 'llama-3-70b')).toBeUndefined();
+    expect(() => registerModelPrice({ model: 'bad', input: Number.NaN, output: 1 })).toThrow('bad');
+  });
+
+  it('sets llm.cost.usd on LLM spans', async () => {
+    AgentBasis.init({
+      agentId: 'test-agent',
+      exporters: [{ type: 'memory' }],
+      pricing: [{ provider: 'vllm', model: 'llama-3-70b', input: 0.5, output: 1.5 }],
+    });
+
+    recordLLMCall({
+      provider: 'vllm',
+      model: 'llama-3-70b',
+      inputTokens: 2000,
+      outputTokens: 1000,
+    });
+    recordLLMCall({ provider: 'vllm', model: 'unknown-model', inputTokens: 10, outputTokens: 10 });
+    await AgentBasis.flush();
+
+    const spans = AgentBasis.getInstance().getTransport().getMemoryExporter()?.getFinishedSpans();
+    expect(spans?.[0]?.attributes['llm.cost.usd']).toBeCloseTo(0.0025);
+    expect(spans?.[1]?.attributes['llm.cost.usd']).toBeUndefined();
+  });
+});
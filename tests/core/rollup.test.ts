@@ -0,0 +1,82 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { AgentBasis, recordLLMCall, startLLMCall } from '../../src/core/client';
+import { trace, withContext } from '../../src/core/context';
+
+function spanAttributes(name: string): Record<string, unknown> | undefined {
+  return AgentBasis.getInstance()
+    .getTransport()
+    .getMemoryExporter()
+    ?.getFinishedSpans()
+    .find((span) => span.name === name)?.attributes;
+}
+
+describe('usage roll-up', () => {
+  afterEach(async () => {
+    await AgentBasis.shutdown();
+  });
+
+  it('adds descendant LLM usage to every ancestor span', async () => {
+    AgentBasis.init({
+      agentId: 'test-agent',
+      exporters: [{ type: 'memory' }],
+      pricing: [{ model: 'local-model', input: 1, output: 2 }],
+    });
+
+    await withContext({ sessionId: 's_1', traceId: 'session' }, async () => {
+      await trace('plan', async () => {
+        recordLLMCall({
+          provider: 'vllm',
+          model: 'local-model',
+          inputTokens: 1000,
+          outputTokens: 500,
+          totalTokens: 1500,
+        });
+        await trace('step', () => {
+          recordLLMCall({
+            provider: 'vllm',
+            model: 'local-model',
+            inputTokens: 200,
+            error: 'timeout',
+          });
+        })();
+      })();
+      recordLLMCall({
+        provider: 'vllm',
+        model: 'local-model',
+        outputTokens: 100,
+        totalTokens: 100,
+      });
+    });
+    await AgentBasis.flush();
+
+    expect(spanAttributes('step')).toMatchObject({
+      'agentbasis.rollup.llm_calls': 1,
+      'agentbasis.rollup.llm_errors': 1,
+      'agentbasis.rollup.input_tokens': 200,
+    });
+    expect(spanAttributes('plan')).toMatchObject({
+      'agentbasis.rollup.llm_calls': 2,
+      'agentbasis.rollup.llm_errors': 1,
+      'agentbasis.rollup.input_tokens': 1200,
+      'agentbasis.rollup.output_tokens': 500,
+      'agentbasis.rollup.total_tokens': 1500,
+    });
+    expect(spanAttributes('plan')?.['agentbasis.rollup.cost_usd']).toBeCloseTo(0.0022);
+    expect(spanAttributes('session')).toMatchObject({
+      'session.id': 's_1',
+      'agentbasis.rollup.llm_calls': 3,
+      'agentbasis.rollup.output_tokens': 600,
+    });
+    expect(spanAttributes('vllm.llm_call')?.['agentbasis.rollup.llm_calls']).toBeUndefined();
+  });
+
+  it('skips ancestors that ended before the call finished', async () => {
+    AgentBasis.init({ agentId: 'test-agent', exporters: [{ type: 'memory' }] });
+
+    const call = await trace('detached', () => startLLMCall({ provider: 'vllm', model: 'm' }))();
+    call.end({ inputTokens: 10 });
+    await AgentBasis.flush();
+
+    expect(spanAttributes('detached')?.['agentbasis.rollup.llm_calls']).toBeUndefined();
+  });
+});
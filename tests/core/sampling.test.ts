@@ -0,0 +1,90 @@
+import { context, SpanStatusCode, trace } from '@opentelemetry/api';
+import { afterEach, describe, expect, it } from 'vitest';
+import { AgentBasis } from '../../src/core/client';
+import type { SamplingConfig } from '../../src/types';
+
+async function collectSpanNames(sampling: SamplingConfig, run: () => void): Promise<string[]> {
+  AgentBasis.init({ agentId: 'test-agent', exporters: [{ type: 'memory' }], sampling });
+  run();
+  await AgentBasis.flush();
+
+  const memory = AgentBasis.getInstance().getTransport().getMemoryExporter();
+  return (memory?.getFinishedSpans() ?? []).map((span) => span.name).sort();
+}
+
+function transport(): ReturnType<AgentBasis['getTransport']> {
+  return AgentBasis.getInstance().getTransport();
+}
+
+describe('sampling', () => {
+  afterEach(async () => {
+    await AgentBasis.shutdown();
+  });
+
+  it('drops everything at ratio 0 and keeps everything at ratio 1', async () => {
+    expect(
+      await collectSpanNames({ ratio: 0 }, () => transport().startSpan('dropped').end())
+    ).toEqual([]);
+    await AgentBasis.shutdown();
+
+    expect(await collectSpanNames({ ratio: 1 }, () => transport().startSpan('kept').end())).toEqual(
+      ['kept']
+    );
+  });
+
+  it('applies provider and span name rules before the default ratio', async () => {
+    const names = await collectSpanNames(
+      {
+        ratio: 1,
+        rules: [
+          { provider: 'openai', spanName: 'openai.embeddings.create', ratio: 0 },
+          { spanName: /^noisy\./, ratio: 0 },
+        ],
+      },
+      () => {
+        transport()
+          .startLLMSpan('openai.embeddings.create', 'openai', 'text-embedding-3-small')
+          .end();
+        transport().startLLMSpan('openai.chat.completions.create', 'openai', 'gpt-4o').end();
+        transport().startSpan('noisy.heartbeat').end();
+        transport().startSpan('agent.run').end();
+      }
+    );
+
+    expect(names).toEqual(['agent.run', 'openai.chat.completions.create']);
+  });
+
+  it('drops children of dropped parents', async () => {
+    const names = await collectSpanNames(
+      { ratio: 1, rules: [{ spanName: 'root', ratio: 0 }] },
+      () => {
+        const root = transport().startSpan('root');
+        transport().startSpan('child', trace.setSpan(context.active(), root)).end();
+        root.end();
+      }
+    );
+
+    expect(names).toEqual([]);
+  });
+
+  it('keeps whole traces with errors or slow LLM calls when tail sampling', async () => {
+    const names = await collectSpanNames({ ratio: 0, tail: { slowLlmCallMs: 1000 } }, () => {
+      const failing = transport().startSpan('failing.root');
+      const failingChild = transport().startSpan(
+        'failing.child',
+        trace.setSpan(context.active(), failing)
+      );
+      failingChild.setStatus({ code: SpanStatusCode.ERROR, message: 'boom' });
+      failingChild.end();
+      failing.end();
+
+      const slow = transport().startLLMSpan('slow.llm', 'anthropic', 'claude', undefined);
+      slow.end(Date.now() + 5000);
+
+      transport().startLLMSpan('fast.llm', 'anthropic', 'claude').end();
+      transport().startSpan('ok.root').end();
+    });
+
+    expect(names).toEqual(['failing.child', 'failing.root', 'slow.llm']);
+  });
+});
@@ -0,0 +1,90 @@
+import { SpanKind, SpanStatusCode } from '@opentelemetry/api';
+import type { ReadableSpan } from '@opentelemetry/sdk-trace-base';
+import { afterEach, describe, expect, it } from 'vitest';
+import { AgentBasis, startSpan, toolSpan } from '../../src/core/client';
+import { withContext } from '../../src/core/context';
+
+function finishedSpans(): ReadableSpan[] {
+  return AgentBasis.getInstance().getTransport().getMemoryExporter()?.getFinishedSpans() ?? [];
+}
+
+describe('manual span API', () => {
+  afterEach(async () => {
+    await AgentBasis.shutdown();
+  });
+
+  it('nests typed spans under the active span and picks up context metadata', async () => {
+    AgentBasis.init({
+      agentId: 'test-agent',
+      exporters: [{ type: 'memory' }],
+      includeContent: true,
+    });
+
+    const result = await withContext({ userId: 'u_1' }, () =>
+      AgentBasis.span('plan', { kind: 'agent', input: 'find docs' }, async (span) => {
+        const hits = await toolSpan('search', { attributes: { 'tool.query': 'docs' } }, () =>
+          Promise.resolve(['a', 'b'])
+        );
+        span.setOutput(hits);
+        return hits.length;
+      })
+    );
+    expect(result).toBe(2);
+    await AgentBasis.flush();
+
+    const spans = finishedSpans();
+    const plan = spans.find((span) => span.name === 'plan');
+    const search = spans.find((span) => span.name === 'search');
+    expect(search?.parentSpanId).toBe(plan?.spanContext().spanId);
+    expect(plan?.kind).toBe(SpanKind.INTERNAL);
+    expect(plan?.status.code).toBe(SpanStatusCode.OK);
+    expect(plan?.attributes).toMatchObject({
+      'agentbasis.span.kind': 'agent',
+      'agentbasis.input': 'find docs',
+      'agentbasis.output': '["a","b"]',
+      'user.id': 'u_1',
+    });
+    expect(search?.attributes).toMatchObject({
+      'agentbasis.span.kind': 'tool',
+      'tool.query': 'docs',
+      'user.id': 'u_1',
+    });
+  });
+
+  it('records errors and ends manually started spans once', async () => {
+    AgentBasis.init({ agentId: 'test-agent', exporters: [{ type: 'memory' }] });
+
+    expect(() =>
+      AgentBasis.span('guard', { kind: 'guardrail' }, () => {
+        throw new Error('blocked');
+      })
+    ).toThrow('blocked');
+
+    const span = startSpan('retrieve', { kind: 'retrieval' });
+    const child = span.run(() => startSpan('child'));
+    child.end();
+    span.end({ error: new Error('no results') });
+    span.end();
+    await AgentBasis.flush();
+
+    const spans = finishedSpans();
+    expect(spans.filter((s) => s.name === 'retrieve')).toHaveLength(1);
+    const retrieve = spans.find((s) => s.name === 'retrieve');
+    expect(retrieve?.kind).toBe(SpanKind.CLIENT);
+    expect(retrieve?.status).toMatchObject({ code: SpanStatusCode.ERROR, message: 'no results' });
+    expect(spans.find((s) => s.name === 'child')?.parentSpanId).toBe(
+      retrieve?.spanContext().spanId
+    );
+    expect(spans.find((s) => s.name === 'guard')?.status.code).toBe(SpanStatusCode.ERROR);
+  });
+
+  it('runs the function with a no-op span when not initialized', async () => {
+    await expect(
+      AgentBasis.span('plan', (span) => {
+        span.setInput('x').setAttribute('k', 1);
+        return Promise.resolve('done');
+      })
+    ).resolves.toBe('done');
+    expect(() => startSpan('manual').end()).not.toThrow();
+  });
+});
@@ -0,0 +1,143 @@
+import { mkdtemp, readdir, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ExportResultCode, type ExportResult } from '@opentelemetry/core';
+import {
+  BasicTracerProvider,
+  InMemorySpanExporter,
+  SimpleSpanProcessor,
+} from '@opentelemetry/sdk-trace-base';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { RetryingOTLPTraceExporter } from '../../src/core/exporters';
+import { DiskSpool } from '../../src/core/spool';
+import { createErrorResponse, createMockFetch, createSuccessResponse } from '../mocks/http';
+
+describe('disk spool', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'agentbasis-spool-'));
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(async () => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('replays batches oldest first and keeps the rest after a failure', async () => {
+    const spool = new DiskSpool({ directory });
+    await spool.write('first');
+    await spool.write('second');
+    await spool.write('third');
+
+    const sent: string[] = [];
+    const delivered = await spool.replay(async (body) => {
+      if (body === 'third') {
+        throw new Error('still offline');
+      }
+      sent.push(body);
+    });
+
+    expect(delivered).toBe(2);
+    expect(sent).toEqual(['first', 'second']);
+    expect(await readdir(directory)).toHaveLength(1);
+
+    expect(await spool.replay(async () => undefined)).toBe(1);
+    expect(await readdir(directory)).toHaveLength(0);
+  });
+
+  it('evicts the oldest batches beyond maxBytes', async () => {
+    const spool = new DiskSpool({ directory, maxBytes: 10 });
+    await spool.write('aaaa');
+    await spool.write('bbbb');
+    await spool.write('cccc');
+    await spool.write('this batch is too large');
+
+    const sent: string[] = [];
+    await spool.replay(async (body) => {
+      sent.push(body);
+    });
+
+    expect(sent).toEqual(['bbbb', 'cccc']);
+  });
+
+  it('spools failed OTLP exports and replays them on flush', async () => {
+    const memory = new InMemorySpanExporter();
+    const provider = new BasicTracerProvider();
+    provider.addSpanProcessor(new SimpleSpanProcessor(memory));
+    provider.getTracer('test').startSpan('offline').end();
+
+    const fetchMock = createMockFetch([createErrorResponse(503, 'down'), createSuccessResponse()]);
+    vi.stubGlobal('fetch', fetchMock);
+
+    const exporter = new RetryingOTLPTraceExporter(
+      { url: 'http://collector.test/v1/traces' },
+      { maxRetries: 0 },
+      new DiskSpool({ directory })
+    );
+    const result = await new Promise<ExportResult>((resolve) =>
+      exporter.export(memory.getFinishedSpans(), resolve)
+    );
+
+    expect(result.code).toBe(ExportResultCode.FAILED);
+    expect(await readdir(directory)).toHaveLength(1);
+
+    await exporter.forceFlush();
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    const replayedBody = JSON.parse(
+      String(vi.mocked(fetchMock).mock.calls[1]?.[1]?.body)
+    ) as { resourceSpans: unknown[] };
+    expect(replayedBody.resourceSpans).toHaveLength(1);
+    expect(await readdir(directory)).toHaveLength(0);
+  });
+
+  it('does not spool batches rejected with a non-retryable status', async () => {
+    const memory = new InMemorySpanExporter();
+    const provider = new BasicTracerProvider();
+    provider.addSpanProcessor(new SimpleSpanProcessor(memory));
+    provider.getTracer('test').startSpan('rejected').end();
+
+    vi.stubGlobal('fetch', createMockFetch([createErrorResponse(400, 'bad request')]));
+
+    const exporter = new RetryingOTLPTraceExporter(
+      { url: 'http://collector.test/v1/traces' },
+      { maxRetries: 2 },
+      new DiskSpool({ directory })
+    );
+    const result = await new Promise<ExportResult>((resolve) =>
+      exporter.export(memory.getFinishedSpans(), resolve)
+    );
+
+    expect(result.code).toBe(ExportResultCode.FAILED);
+    expect(await readdir(directory)).toHaveLength(0);
+  });
+
+  it('drops a rejected spooled batch and keeps replaying the ones behind it', async () => {
+    const spool = new DiskSpool({ directory });
+    await spool.write('rejected');
+    await spool.write('good');
+
+    const fetchMock = createMockFetch([
+      createErrorResponse(400, 'bad request'),
+      createSuccessResponse(),
+    ]);
+    vi.stubGlobal('fetch', fetchMock);
+
+    const exporter = new RetryingOTLPTraceExporter(
+      { url: 'http://collector.test/v1/traces' },
+      { maxRetries: 0 },
+      spool
+    );
+
+    expect(await exporter.replaySpool()).toBe(1);
+    expect(vi.mocked(fetchMock).mock.calls.map((call) => call[1]?.body)).toEqual([
+      'rejected',
+      'good',
+    ]);
+    expect(await readdir(directory)).toHaveLength(0);
+  });
+});
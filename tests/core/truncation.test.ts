@@ -0,0 +1,56 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { AgentBasis } from '../../src/core/client';
+import { LLM_ATTRIBUTES } from '../../src/core/attributes';
+import { truncateUtf8 } from '../../src/core/truncation';
+
+describe('content truncation', () => {
+  afterEach(async () => {
+    await AgentBasis.shutdown();
+  });
+
+  it('leaves text within the limit untouched', () => {
+    expect(truncateUtf8('hello', 5)).toEqual({ text: 'hello', truncated: false });
+  });
+
+  it('cuts on a UTF-8 boundary and appends a marker within the limit', () => {
+    const input = 'é'.repeat(100); // 200 bytes
+    const { text, truncated } = truncateUtf8(input, 64);
+
+    expect(truncated).toBe(true);
+    expect(Buffer.byteLength(text, 'utf8')).toBeLessThanOrEqual(64);
+    expect(text).toMatch(/^(é)+…\[truncated \d+ bytes\]$/);
+    expect(text).not.toContain('�');
+  });
+
+  it('cuts without a marker when the limit cannot hold one', () => {
+    const { text, truncated } = truncateUtf8('😀😀😀', 6);
+
+    expect(truncated).toBe(true);
+    expect(text).toBe('😀');
+  });
+
+  it('truncates oversized content attributes and flags the span', async () => {
+    AgentBasis.init({
+      agentId: 'test-agent',
+      exporters: [{ type: 'memory' }],
+      includeContent: true,
+      contentLimits: { maxBytes: 256, attributes: { [LLM_ATTRIBUTES.RESPONSE]: 4096 } },
+    });
+    const transport = AgentBasis.getInstance().getTransport();
+
+    const span = transport.startLLMSpan('openai.chat.completions.create', 'openai', 'gpt-4o');
+    transport.endLLMSpan(span, {
+      prompt: [{ role: 'user', content: 'context '.repeat(1000) }],
+      response: { content: 'short answer' },
+    });
+    await AgentBasis.flush();
+
+    const [exported] = transport.getMemoryExporter()?.getFinishedSpans() ?? [];
+    const prompt = exported?.attributes[LLM_ATTRIBUTES.PROMPT];
+    expect(typeof prompt).toBe('string');
+    expect(Buffer.byteLength(prompt as string, 'utf8')).toBeLessThanOrEqual(256);
+    expect(exported?.attributes[LLM_ATTRIBUTES.PROMPT_TRUNCATED]).toBe(true);
+    expect(exported?.attributes[LLM_ATTRIBUTES.RESPONSE]).toBe('{"content":"short answer"}');
+    expect(exported?.attributes[LLM_ATTRIBUTES.RESPONSE_TRUNCATED]).toBeUndefined();
+  });
+});
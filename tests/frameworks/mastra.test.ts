@@ -0,0 +1,42 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { AgentBasis } from '../../src/core/client';
+import { createTracedTool, withAgentTracing } from '../../src/frameworks/mastra';
+
+async function finishedSpan(name: string) {
+  await AgentBasis.flush();
+  return AgentBasis.getInstance()
+    .getTransport()
+    .getMemoryExporter()
+    ?.getFinishedSpans()
+    .find((span) => span.name === name);
+}
+
+describe('Mastra integration', () => {
+  afterEach(async () => {
+    await AgentBasis.shutdown();
+  });
+
+  it('applies the integration content mode to agent and tool spans', async () => {
+    AgentBasis.init({
+      agentId: 'test-agent',
+      exporters: [{ type: 'memory' }],
+      contentMode: 'full',
+    });
+    const search = createTracedTool('search', async (query: string) => `results for ${query}`, {
+      contentMode: 'output-only',
+    });
+    const agent = withAgentTracing(
+      { name: 'researcher', execute: async (input: unknown) => search(String(input)) },
+      { contentMode: 'none' }
+    );
+
+    await agent.execute?.('AI news');
+
+    const agentSpan = await finishedSpan('mastra.agent.researcher');
+    expect(agentSpan?.attributes['mastra.input']).toBeUndefined();
+    expect(agentSpan?.attributes['mastra.output']).toBeUndefined();
+    const toolSpan = await finishedSpan('mastra.tool.search');
+    expect(toolSpan?.attributes['mastra.tool_input']).toBeUndefined();
+    expect(toolSpan?.attributes['mastra.tool_output']).toBe('results for AI news');
+  });
+});
@@ -0,0 +1,111 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { AgentBasis } from '../../src/core/client';
+import { AgentBasisCallbackHandler } from '../../src/frameworks/langchain';
+import { wrapLanguageModel } from '../../src/frameworks/vercel-ai-sdk';
+
+async function finishedSpan(name: string) {
+  await AgentBasis.flush();
+  return AgentBasis.getInstance()
+    .getTransport()
+    .getMemoryExporter()
+    ?.getFinishedSpans()
+    .find((span) => span.name === name);
+}
+
+describe('framework request parameters', () => {
+  afterEach(async () => {
+    await AgentBasis.shutdown();
+  });
+
+  it('records Vercel AI SDK call options for v4 and v5 models', async () => {
+    AgentBasis.init({ agentId: 'test-agent', exporters: [{ type: 'memory' }] });
+    const model = wrapLanguageModel({
+      modelId: 'gpt-4o',
+      provider: 'openai.chat',
+      doGenerate: async () => ({ text: 'ok' }),
+      doStream: async () => ({ stream: [] }),
+    });
+
+    await model.doGenerate?.({
+      temperature: 0.2,
+      maxTokens: 256,
+      stopSequences: ['END'],
+      responseFormat: { type: 'json', schema: { type: 'object' } },
+      mode: {
+        type: 'regular',
+        tools: [{ type: 'function', name: 'lookup' }],
+        toolChoice: { type: 'tool', toolName: 'lookup' },
+      },
+    });
+    await model.doStream?.({
+      topP: 0.9,
+      maxOutputTokens: 64,
+      seed: 7,
+      tools: [
+        { type: 'function', name: 'a' },
+        { type: 'function', name: 'b' },
+      ],
+      toolChoice: { type: 'required' },
+    });
+
+    expect((await finishedSpan('vercel-ai.generate'))?.attributes).toMatchObject({
+      'llm.request.temperature': 0.2,
+      'llm.request.max_tokens': 256,
+      'llm.request.stop_sequences': ['END'],
+      'llm.request.response_format': 'json_schema',
+      'llm.request.tool_choice': 'tool:lookup',
+      'llm.request.tool_count': 1,
+    });
+    expect((await finishedSpan('vercel-ai.stream'))?.attributes).toMatchObject({
+      'llm.request.top_p': 0.9,
+      'llm.request.max_tokens': 64,
+      'llm.request.seed': 7,
+      'llm.request.tool_choice': 'required',
+      'llm.request.tool_count': 2,
+    });
+  });
+
+  it('records LangChain invocation params', async () => {
+    AgentBasis.init({ agentId: 'test-agent', exporters: [{ type: 'memory' }] });
+    const handler = new AgentBasisCallbackHandler();
+    const llm = { lc: 1, type: 'constructor', id: ['langchain', 'chat_models', 'ChatOpenAI'] };
+    const output = { generations: [[{ text: 'ok' }]] };
+
+    await handler.handleChatModelStart(
+      llm,
+      [[{ role: 'user', content: 'hi' }]],
+      'run-1',
+      undefined,
+      {
+        invocation_params: {
+          model: 'gpt-4o',
+          temperature: 0,
+          max_completion_tokens: 100,
+          stop: 'END',
+          response_format: { type: 'json_object' },
+          tools: [{ type: 'function', function: { name: 'lookup' } }],
+          tool_choice: { type: 'function', function: { name: 'lookup' } },
+        },
+      }
+    );
+    await handler.handleChatModelEnd(output, 'run-1');
+    await handler.handleLLMStart(llm, ['hi'], 'run-2', undefined, {
+      invocation_params: { topP: 0.5, maxOutputTokens: 32, stopSequences: ['\n'] },
+    });
+    await handler.handleLLMEnd(output, 'run-2');
+
+    expect((await finishedSpan('langchain.chat'))?.attributes).toMatchObject({
+      'llm.request.temperature': 0,
+      'llm.request.max_tokens': 100,
+      'llm.request.stop_sequences': ['END'],
+      'llm.request.response_format': 'json',
+      'llm.request.tool_choice': 'tool:lookup',
+      'llm.request.tool_count': 1,
+    });
+    expect((await finishedSpan('langchain.llm'))?.attributes).toMatchObject({
+      'llm.request.top_p': 0.5,
+      'llm.request.max_tokens': 32,
+      'llm.request.stop_sequences': ['\n'],
+    });
+  });
+});
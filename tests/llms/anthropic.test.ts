@@ -0,0 +1,208 @@
+import { EventEmitter } from 'events';
+import { createRequire } from 'module';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AgentBasis } from '../../src/core/client';
+import { instrument, uninstrument } from '../../src/llms/anthropic';
+
+const Anthropic = createRequire(import.meta.url)('@anthropic-ai/sdk').default;
+
+async function finishedSpan(name: string) {
+  await AgentBasis.flush();
+  return AgentBasis.getInstance()
+    .getTransport()
+    .getMemoryExporter()
+    ?.getFinishedSpans()
+    .find((span) => span.name === name);
+}
+
+async function* events(...items: unknown[]): AsyncGenerator<unknown> {
+  yield* items;
+}
+
+const request = {
+  model: 'claude-sonnet-4-5',
+  max_tokens: 512,
+  temperature: 0.5,
+  top_p: 0.9,
+  stop_sequences: ['</answer>'],
+  messages: [{ role: 'user', content: 'What time is it in Tokyo?' }],
+  tools: [{ name: 'clock', input_schema: { type: 'object' } }],
+  tool_choice: { type: 'any' },
+};
+
+const message = {
+  id: 'msg_1',
+  type: 'message',
+  role: 'assistant',
+  model: 'claude-sonnet-4-5-20250929',
+  stop_reason: 'tool_use',
+  content: [
+    { type: 'text', text: 'Checking.' },
+    { type: 'tool_use', id: 'toolu_1', name: 'clock', input: { tz: 'Asia/Tokyo' } },
+  ],
+  usage: {
+    input_tokens: 20,
+    output_tokens: 15,
+    cache_read_input_tokens: 300,
+    cache_creation_input_tokens: 40,
+  },
+};
+
+describe('Anthropic instrumentation', () => {
+  const create = vi.fn();
+  const stream = vi.fn();
+
+  beforeEach(() => {
+    vi.spyOn(Anthropic.Messages.prototype, 'create').mockImplementation(create);
+    vi.spyOn(Anthropic.Messages.prototype, 'stream').mockImplementation(stream);
+    AgentBasis.init({
+      agentId: 'test-agent',
+      exporters: [{ type: 'memory' }],
+      contentMode: 'full',
+    });
+    instrument();
+  });
+
+  afterEach(async () => {
+    uninstrument();
+    vi.restoreAllMocks();
+    create.mockReset();
+    stream.mockReset();
+    await AgentBasis.shutdown();
+  });
+
+  it('records request parameters, response metadata, cache usage and tool calls', async () => {
+    create.mockResolvedValue(message);
+
+    await new Anthropic({ apiKey: 'test' }).messages.create(request);
+
+    const span = await finishedSpan('anthropic.messages.create');
+    expect(span?.attributes).toMatchObject({
+      'llm.request.temperature': 0.5,
+      'llm.request.top_p': 0.9,
+      'llm.request.max_tokens': 512,
+      'llm.request.stop_sequences': ['</answer>'],
+      'llm.request.tool_choice': 'required',
+      'llm.request.tool_count': 1,
+      'llm.response.id': 'msg_1',
+      'llm.response.model': 'claude-sonnet-4-5-20250929',
+      'llm.response.finish_reasons': ['tool_use'],
+      'llm.usage.input_tokens': 360,
+      'llm.usage.cached_input_tokens': 300,
+      'llm.usage.output_tokens': 15,
+      'llm.usage.total_tokens': 375,
+      'llm.streamed': false,
+    });
+    expect(span?.events.map((event) => [event.name, event.attributes])).toEqual([
+      [
+        'llm.tool_call',
+        {
+          'llm.tool_call.name': 'clock',
+          'llm.tool_call.id': 'toolu_1',
+          'llm.tool_call.arguments_size': 19,
+          'llm.tool_call.arguments': '{"tz":"Asia/Tokyo"}',
+        },
+      ],
+    ]);
+  });
+
+  it('records no token counts or cost when the response has no usage', async () => {
+    const { usage: _, ...withoutUsage } = message;
+    create.mockResolvedValue(withoutUsage);
+
+    await new Anthropic({ apiKey: 'test' }).messages.create(request);
+
+    const span = await finishedSpan('anthropic.messages.create');
+    expect(span?.attributes['llm.response.id']).toBe('msg_1');
+    expect(span?.attributes['llm.usage.input_tokens']).toBeUndefined();
+    expect(span?.attributes['llm.usage.output_tokens']).toBeUndefined();
+    expect(span?.attributes['llm.usage.total_tokens']).toBeUndefined();
+    expect(span?.attributes['llm.cost.usd']).toBeUndefined();
+  });
+
+  it('assembles streamed tool_use input from input_json_delta events', async () => {
+    create.mockResolvedValue(
+      events(
+        {
+          type: 'message_start',
+          message: {
+            ...message,
+            content: [],
+            stop_reason: null,
+            usage: { input_tokens: 20, output_tokens: 1, cache_read_input_tokens: 300 },
+          },
+        },
+        {
+          type: 'content_block_start',
+          index: 0,
+          content_block: { type: 'tool_use', id: 'toolu_1', name: 'clock', input: {} },
+        },
+        {
+          type: 'content_block_delta',
+          index: 0,
+          delta: { type: 'input_json_delta', partial_json: '{"tz":' },
+        },
+        {
+          type: 'content_block_delta',
+          index: 0,
+          delta: { type: 'input_json_delta', partial_json: '"Asia/Tokyo"}' },
+        },
+        { type: 'content_block_stop', index: 0 },
+        {
+          type: 'content_block_start',
+          index: 1,
+          content_block: { type: 'tool_use', id: 'toolu_2', name: 'now', input: {} },
+        },
+        { type: 'content_block_stop', index: 1 },
+        { type: 'message_delta', delta: { stop_reason: 'tool_use' }, usage: { output_tokens: 30 } },
+        { type: 'message_stop' }
+      )
+    );
+
+    const result = await new Anthropic({ apiKey: 'test' }).messages.create({
+      ...request,
+      stream: true,
+    });
+    for await (const _ of result) {
+      // drain
+    }
+
+    const span = await finishedSpan('anthropic.messages.create');
+    expect(span?.attributes).toMatchObject({
+      'llm.response.id': 'msg_1',
+      'llm.response.model': 'claude-sonnet-4-5-20250929',
+      'llm.response.finish_reasons': ['tool_use'],
+      'llm.usage.input_tokens': 320,
+      'llm.usage.cached_input_tokens': 300,
+      'llm.usage.output_tokens': 30,
+      'llm.streamed': true,
+    });
+    expect(span?.events.map((event) => event.attributes)).toMatchObject([
+      { 'llm.tool_call.id': 'toolu_1', 'llm.tool_call.arguments': '{"tz":"Asia/Tokyo"}' },
+      { 'llm.tool_call.id': 'toolu_2', 'llm.tool_call.arguments': '{}' },
+    ]);
+  });
+
+  it('reads the final message of a MessageStream', async () => {
+    const messageStream = new EventEmitter();
+    stream.mockReturnValue(messageStream);
+
+    new Anthropic({ apiKey: 'test' }).messages.stream(request);
+    messageStream.emit('text', 'Checking.');
+    messageStream.emit('message', message);
+    messageStream.emit('end');
+
+    const span = await finishedSpan('anthropic.messages.stream');
+    expect(span?.attributes).toMatchObject({
+      'llm.request.tool_choice': 'required',
+      'llm.response.id': 'msg_1',
+      'llm.response.finish_reasons': ['tool_use'],
+      'llm.usage.input_tokens': 360,
+      'llm.usage.cached_input_tokens': 300,
+      'llm.streamed': true,
+    });
+    expect(span?.events.map((event) => event.attributes)).toMatchObject([
+      { 'llm.tool_call.name': 'clock', 'llm.tool_call.id': 'toolu_1' },
+    ]);
+  });
+});
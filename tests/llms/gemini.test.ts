@@ -0,0 +1,163 @@
+import { createRequire } from 'module';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AgentBasis } from '../../src/core/client';
+import { instrument, uninstrument } from '../../src/llms/gemini';
+
+const { GenerativeModel, GoogleGenerativeAI } = createRequire(import.meta.url)(
+  '@google/generative-ai'
+);
+
+async function finishedSpan(name: string) {
+  await AgentBasis.flush();
+  return AgentBasis.getInstance()
+    .getTransport()
+    .getMemoryExporter()
+    ?.getFinishedSpans()
+    .find((span) => span.name === name);
+}
+
+const response = {
+  responseId: 'resp_1',
+  modelVersion: 'gemini-2.5-flash-001',
+  candidates: [
+    {
+      finishReason: 'STOP',
+      content: {
+        role: 'model',
+        parts: [
+          { functionCall: { name: 'weather', args: { city: 'Oslo' } } },
+          { functionCall: { name: 'news', id: 'fc_2', args: {} } },
+        ],
+      },
+    },
+  ],
+  usageMetadata: {
+    promptTokenCount: 120,
+    cachedContentTokenCount: 100,
+    candidatesTokenCount: 8,
+    thoughtsTokenCount: 30,
+    totalTokenCount: 158,
+  },
+};
+
+function model() {
+  return new GoogleGenerativeAI('test').getGenerativeModel({
+    model: 'gemini-2.5-flash',
+    generationConfig: {
+      temperature: 0.1,
+      topP: 0.95,
+      maxOutputTokens: 1024,
+      stopSequences: ['STOP'],
+      seed: 3,
+      responseMimeType: 'application/json',
+    },
+    tools: [{ functionDeclarations: [{ name: 'weather' }, { name: 'news' }] }],
+    toolConfig: { functionCallingConfig: { mode: 'ANY', allowedFunctionNames: ['weather'] } },
+  });
+}
+
+describe('Gemini instrumentation', () => {
+  const generateContent = vi.fn();
+  const generateContentStream = vi.fn();
+
+  beforeEach(() => {
+    vi.spyOn(GenerativeModel.prototype, 'generateContent').mockImplementation(generateContent);
+    vi.spyOn(GenerativeModel.prototype, 'generateContentStream').mockImplementation(
+      generateContentStream
+    );
+    AgentBasis.init({
+      agentId: 'test-agent',
+      exporters: [{ type: 'memory' }],
+      contentMode: 'full',
+    });
+    instrument();
+  });
+
+  afterEach(async () => {
+    uninstrument();
+    vi.restoreAllMocks();
+    generateContent.mockReset();
+    generateContentStream.mockReset();
+    await AgentBasis.shutdown();
+  });
+
+  it('records request parameters, response metadata, thinking usage and function calls', async () => {
+    generateContent.mockResolvedValue({ response });
+
+    await model().generateContent('Weather in Oslo?');
+
+    const span = await finishedSpan('gemini.generateContent');
+    expect(span?.attributes).toMatchObject({
+      'llm.request.temperature': 0.1,
+      'llm.request.top_p': 0.95,
+      'llm.request.max_tokens': 1024,
+      'llm.request.stop_sequences': ['STOP'],
+      'llm.request.seed': 3,
+      'llm.request.response_format': 'json',
+      'llm.request.tool_choice': 'tool:weather',
+      'llm.request.tool_count': 2,
+      'llm.response.id': 'resp_1',
+      'llm.response.model': 'gemini-2.5-flash-001',
+      'llm.response.finish_reasons': ['STOP'],
+      'llm.usage.input_tokens': 120,
+      'llm.usage.cached_input_tokens': 100,
+      'llm.usage.output_tokens': 38,
+      'llm.usage.reasoning_tokens': 30,
+      'llm.usage.total_tokens': 158,
+      'llm.streamed': false,
+    });
+    expect(span?.events.map((event) => [event.name, event.attributes])).toEqual([
+      [
+        'llm.tool_call',
+        {
+          'llm.tool_call.name': 'weather',
+          'llm.tool_call.arguments_size': 15,
+          'llm.tool_call.arguments': '{"city":"Oslo"}',
+        },
+      ],
+      [
+        'llm.tool_call',
+        {
+          'llm.tool_call.name': 'news',
+          'llm.tool_call.id': 'fc_2',
+          'llm.tool_call.arguments_size': 2,
+          'llm.tool_call.arguments': '{}',
+        },
+      ],
+    ]);
+  });
+
+  it('records the aggregated response of a stream', async () => {
+    async function* chunks(): AsyncGenerator<unknown> {
+      yield { text: () => '' };
+    }
+    generateContentStream.mockResolvedValue({
+      stream: chunks(),
+      response: Promise.resolve(response),
+    });
+
+    const result = await model().generateContentStream({
+      contents: [{ role: 'user', parts: [{ text: 'Weather in Oslo?' }] }],
+      generationConfig: { temperature: 0.7 },
+    });
+    for await (const _ of result.stream) {
+      // drain
+    }
+    await result.response;
+
+    const span = await finishedSpan('gemini.generateContentStream');
+    expect(span?.attributes).toMatchObject({
+      'llm.request.temperature': 0.7,
+      'llm.request.tool_choice': 'tool:weather',
+      'llm.response.id': 'resp_1',
+      'llm.response.finish_reasons': ['STOP'],
+      'llm.usage.output_tokens': 38,
+      'llm.usage.reasoning_tokens': 30,
+      'llm.streamed': true,
+    });
+    expect(span?.events.map((event) => event.attributes['llm.tool_call.name'])).toEqual([
+      'weather',
+      'news',
+    ]);
+  });
+});
@@ -0,0 +1,176 @@
+import { createRequire } from 'module';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AgentBasis } from '../../src/core/client';
+import { instrument, uninstrument } from '../../src/llms/openai';
+
+const OpenAI = createRequire(import.meta.url)('openai').default;
+
+async function finishedSpan(name: string) {
+  await AgentBasis.flush();
+  return AgentBasis.getInstance()
+    .getTransport()
+    .getMemoryExporter()
+    ?.getFinishedSpans()
+    .find((span) => span.name === name);
+}
+
+async function* chunks(...items: unknown[]): AsyncGenerator<unknown> {
+  yield* items;
+}
+
+const request = {
+  model: 'gpt-4o',
+  messages: [{ role: 'user', content: 'Weather in Paris and Rome?' }],
+  temperature: 0.3,
+  top_p: 0.8,
+  max_completion_tokens: 200,
+  stop: 'END',
+  seed: 42,
+  response_format: { type: 'json_object' },
+  tools: [
+    { type: 'function', function: { name: 'weather' } },
+    { type: 'function', function: { name: 'news' } },
+  ],
+  tool_choice: { type: 'function', function: { name: 'weather' } },
+};
+
+describe('OpenAI instrumentation', () => {
+  const create = vi.fn();
+
+  beforeEach(() => {
+    vi.spyOn(OpenAI.Chat.Completions.prototype, 'create').mockImplementation(create);
+    AgentBasis.init({
+      agentId: 'test-agent',
+      exporters: [{ type: 'memory' }],
+      contentMode: 'full',
+    });
+    instrument();
+  });
+
+  afterEach(async () => {
+    uninstrument();
+    vi.restoreAllMocks();
+    create.mockReset();
+    await AgentBasis.shutdown();
+  });
+
+  it('records request parameters, response metadata and tool calls', async () => {
+    create.mockResolvedValue({
+      id: 'chatcmpl-1',
+      model: 'gpt-4o-2024-08-06',
+      system_fingerprint: 'fp_abc',
+      choices: [
+        {
+          index: 0,
+          finish_reason: 'tool_calls',
+          message: {
+            role: 'assistant',
+            content: null,
+            tool_calls: [
+              {
+                id: 'call_1',
+                type: 'function',
+                function: { name: 'weather', arguments: '{"city":"Paris"}' },
+              },
+            ],
+          },
+        },
+      ],
+      usage: {
+        prompt_tokens: 50,
+        completion_tokens: 20,
+        total_tokens: 70,
+        prompt_tokens_details: { cached_tokens: 10 },
+        completion_tokens_details: { reasoning_tokens: 5 },
+      },
+    });
+
+    await new OpenAI({ apiKey: 'test' }).chat.completions.create(request);
+
+    const span = await finishedSpan('openai.chat.completions.create');
+    expect(span?.attributes).toMatchObject({
+      'llm.request.temperature': 0.3,
+      'llm.request.top_p': 0.8,
+      'llm.request.max_tokens': 200,
+      'llm.request.stop_sequences': ['END'],
+      'llm.request.seed': 42,
+      'llm.request.response_format': 'json',
+      'llm.request.tool_choice': 'tool:weather',
+      'llm.request.tool_count': 2,
+      'llm.response.id': 'chatcmpl-1',
+      'llm.response.model': 'gpt-4o-2024-08-06',
+      'llm.response.finish_reasons': ['tool_calls'],
+      'llm.response.system_fingerprint': 'fp_abc',
+      'llm.usage.cached_input_tokens': 10,
+      'llm.usage.reasoning_tokens': 5,
+      'llm.streamed': false,
+    });
+    expect(span?.events.map((event) => [event.name, event.attributes])).toEqual([
+      [
+        'llm.tool_call',
+        {
+          'llm.tool_call.name': 'weather',
+          'llm.tool_call.id': 'call_1',
+          'llm.tool_call.arguments_size': 16,
+          'llm.tool_call.arguments': '{"city":"Paris"}',
+        },
+      ],
+    ]);
+  });
+
+  it('assembles streamed tool call fragments per choice', async () => {
+    const chunk = (choices: unknown[], extra: Record<string, unknown> = {}) => ({
+      id: 'chatcmpl-2',
+      model: 'gpt-4o-2024-08-06',
+      system_fingerprint: 'fp_def',
+      choices,
+      ...extra,
+    });
+    const fragment = (index: number, toolCall: Record<string, unknown>) => ({
+      index,
+      delta: { tool_calls: [{ index: 0, ...toolCall }] },
+    });
+    create.mockResolvedValue(
+      chunks(
+        chunk([
+          fragment(0, { id: 'call_a', function: { name: 'weather', arguments: '{"ci' } }),
+          fragment(1, { id: 'call_b', function: { name: 'weather', arguments: '{"city"' } }),
+        ]),
+        chunk([
+          fragment(0, { function: { arguments: 'ty":"Paris"}' } }),
+          fragment(1, { function: { arguments: ':"Rome"}' } }),
+        ]),
+        chunk([
+          { index: 0, delta: {}, finish_reason: 'tool_calls' },
+          { index: 1, delta: {}, finish_reason: 'tool_calls' },
+        ]),
+        chunk([], { usage: { prompt_tokens: 40, completion_tokens: 12, total_tokens: 52 } })
+      )
+    );
+
+    const stream = await new OpenAI({ apiKey: 'test' }).chat.completions.create({
+      ...request,
+      n: 2,
+      stream: true,
+    });
+    for await (const _ of stream) {
+      // drain
+    }
+
+    const span = await finishedSpan('openai.chat.completions.create');
+    expect(span?.attributes).toMatchObject({
+      'llm.request.tool_choice': 'tool:weather',
+      'llm.response.id': 'chatcmpl-2',
+      'llm.response.model': 'gpt-4o-2024-08-06',
+      'llm.response.finish_reasons': ['tool_calls', 'tool_calls'],
+      'llm.response.system_fingerprint': 'fp_def',
+      'llm.usage.input_tokens': 40,
+      'llm.usage.output_tokens': 12,
+      'llm.streamed': true,
+    });
+    expect(span?.events.map((event) => event.attributes)).toMatchObject([
+      { 'llm.tool_call.id': 'call_a', 'llm.tool_call.arguments': '{"city":"Paris"}' },
+      { 'llm.tool_call.id': 'call_b', 'llm.tool_call.arguments': '{"city":"Rome"}' },
+    ]);
+  });
+});
@@ -7,6 +7,7 @@ import { vi } from 'vitest';
 export interface MockResponse {
   ok: boolean;
   status: number;
+  headers: { get: (name: string) => string | null };
   json: () => Promise<unknown>;
   text: () => Promise<string>;
 }
@@ -18,6 +19,7 @@ export function createMockFetch(responses: MockResponse[] = []): typeof fetch {
     const response = responses[callIndex] ?? {
       ok: true,
       status: 200,
+      headers: createHeaders(),
       json: async () => ({ success: true }),
       text: async () => 'OK',
     };
@@ -28,19 +30,32 @@ export function createMockFetch(responses: MockResponse[] = []): typeof fetch {
   });
 }
 
+function createHeaders(headers: Record<string, string> = {}): MockResponse['headers'] {
+  const normalized = new Map(
+    Object.entries(headers).map(([key, value]) => [key.toLowerCase(), value])
+  );
+  return { get: (name: string) => normalized.get(name.toLowerCase()) ?? null };
+}
+
 export function createSuccessResponse(data: unknown = { success: true }): MockResponse {
   return {
     ok: true,
     status: 200,
+    headers: createHeaders(),
     json: async () => data,
     text: async () => JSON.stringify(data),
   };
 }
 
-export function createErrorResponse(status: number, message: string): MockResponse {
+export function createErrorResponse(
+  status: number,
+  message: string,
+  headers: Record<string, string> = {}
+): MockResponse {
   return {
     ok: false,
     status,
+    headers: createHeaders(headers),
     json: async () => ({ error: message }),
     text: async () => message,
   };
@@ -10,8 +10,11 @@ beforeEach(() => {
   // Clear AgentBasis env vars
   delete process.env.AGENTBASIS_API_KEY;
   delete process.env.AGENTBASIS_AGENT_ID;
+  delete process.env.AGENTBASIS_ENDPOINT;
   delete process.env.AGENTBASIS_DEBUG;
   delete process.env.AGENTBASIS_INCLUDE_CONTENT;
+  delete process.env.AGENTBASIS_CONTENT_MODE;
+  delete process.env.AGENTBASIS_SEMANTIC_CONVENTIONS;
   setRuntimeDebugMode(undefined);
 });
 